@@ -1,23 +0,0 @@
-
-import React from 'react';
-
-interface SpinnerProps {
-  size?: 'small' | 'medium' | 'large';
-}
-
-export const Spinner: React.FC<SpinnerProps> = ({ size = 'medium' }) => {
-  const sizeClasses = {
-    small: 'h-5 w-5',
-    medium: 'h-6 w-6',
-    large: 'h-12 w-12',
-  };
-
-  return (
-    <div
-      className={`animate-spin rounded-full border-t-2 border-b-2 border-white ${sizeClasses[size]}`}
-      role="status"
-    >
-      <span className="sr-only">Loading...</span>
-    </div>
-  );
-};
@@ -0,0 +1,132 @@
+// Exercises the Google Drive upload in src/services/googleDrive.ts against a local fake Drive API:
+// the folder lookup and creation, the multipart upload body, and how Drive errors are mapped.
+// Run with `npm run check:drive`; nothing leaves this machine.
+
+import { createServer } from 'node:http';
+import assert from 'node:assert/strict';
+import { createServer as createViteServer } from 'vite';
+
+const VALID_TOKEN = 'valid-token';
+
+// Just enough of the Drive v3 API for saveToDrive, recording every request it receives.
+const startFakeDrive = async () => {
+  const state = { folders: [], uploads: [], requests: [], failUploadsWith: null };
+
+  const readBody = req => new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  // Splits a multipart/related body into its parts' headers and raw bytes.
+  const parseMultipart = (body, contentType) => {
+    const boundary = /boundary=([^;]+)/.exec(contentType)?.[1];
+    assert.ok(boundary, 'upload has a multipart boundary');
+    const parts = [];
+    let start = body.indexOf(`--${boundary}`);
+    while (start !== -1) {
+      const next = body.indexOf(`--${boundary}`, start + boundary.length + 2);
+      if (next === -1) break;
+      const part = body.subarray(start + boundary.length + 4, next - 2);
+      const headerEnd = part.indexOf('\r\n\r\n');
+      parts.push({ headers: part.subarray(0, headerEnd).toString(), data: part.subarray(headerEnd + 4) });
+      start = next;
+    }
+    assert.ok(body.subarray(body.length - boundary.length - 4).toString() === `--${boundary}--`, 'multipart body is closed');
+    return parts;
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const body = await readBody(req);
+    state.requests.push(`${req.method} ${url.pathname}`);
+
+    if (req.headers.authorization !== `Bearer ${VALID_TOKEN}`) {
+      return send(res, 401, { error: { code: 401, message: 'Invalid Credentials' } });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/drive/v3/files') {
+      const name = /name='((?:[^'\\]|\\.)*)'/.exec(url.searchParams.get('q') ?? '')?.[1]?.replace(/\\(.)/g, '$1');
+      return send(res, 200, { files: state.folders.filter(folder => folder.name === name).map(({ id }) => ({ id })) });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/drive/v3/files') {
+      const folder = { id: `folder-${state.folders.length + 1}`, ...JSON.parse(body.toString()) };
+      state.folders.push(folder);
+      return send(res, 200, { id: folder.id });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/upload/drive/v3/files') {
+      if (state.failUploadsWith) {
+        return send(res, state.failUploadsWith, { error: { code: state.failUploadsWith, message: 'Backend Error' } });
+      }
+      assert.equal(url.searchParams.get('uploadType'), 'multipart');
+      const [metadataPart, filePart] = parseMultipart(body, req.headers['content-type'] ?? '');
+      const upload = { id: `file-${state.uploads.length + 1}`, metadata: JSON.parse(metadataPart.data.toString()), fileHeaders: filePart.headers, bytes: filePart.data };
+      state.uploads.push(upload);
+      return send(res, 200, { id: upload.id, webViewLink: `https://drive.example/${upload.id}` });
+    }
+
+    send(res, 404, { error: { code: 404, message: `No fake for ${req.method} ${url.pathname}` } });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { state, apiBase: `http://127.0.0.1:${server.address().port}`, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+const expectApiError = async (promise, code) => {
+  await assert.rejects(promise, error => {
+    assert.equal(error.name, 'ApiError');
+    assert.equal(error.code, code);
+    return true;
+  });
+};
+
+const vite = await createViteServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+const drive = await startFakeDrive();
+try {
+  const { saveToDrive } = await vite.ssrLoadModule('/src/services/googleDrive.ts');
+  const options = { apiBase: `${drive.apiBase}/` };
+  const zipBytes = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff, 0x10, 0x0d, 0x0a]);
+  const fileData = `data:application/zip;base64,${zipBytes.toString('base64')}`;
+
+  // A named folder is created on first use and becomes the upload's parent.
+  const first = await saveToDrive(VALID_TOKEN, fileData, 'story.zip', undefined, "Dad's \\ Stories", options);
+  assert.deepEqual(first, { id: 'file-1', webViewLink: 'https://drive.example/file-1' });
+  assert.equal(drive.state.folders.length, 1);
+  assert.equal(drive.state.folders[0].name, "Dad's \\ Stories");
+  assert.equal(drive.state.folders[0].mimeType, 'application/vnd.google-apps.folder');
+  const [upload] = drive.state.uploads;
+  assert.deepEqual(upload.metadata, { name: 'story.zip', mimeType: 'application/zip', parents: ['folder-1'] });
+  assert.match(upload.fileHeaders, /Content-Type: application\/zip/);
+  assert.deepEqual(upload.bytes, zipBytes, 'file bytes arrive unchanged');
+
+  // The same folder is found again rather than created twice.
+  await saveToDrive(VALID_TOKEN, fileData, 'story-2.zip', undefined, "Dad's \\ Stories", options);
+  assert.equal(drive.state.folders.length, 1);
+  assert.deepEqual(drive.state.uploads[1].metadata.parents, ['folder-1']);
+
+  // An explicit folder id skips the lookup; without one the configured default is used.
+  const requestsBefore = drive.state.requests.length;
+  await saveToDrive(VALID_TOKEN, fileData, 'story-3.zip', 'folder-explicit', 'ignored', options);
+  assert.deepEqual(drive.state.requests.slice(requestsBefore), ['POST /upload/drive/v3/files']);
+  assert.deepEqual(drive.state.uploads[2].metadata.parents, ['folder-explicit']);
+  await saveToDrive(VALID_TOKEN, fileData, 'story-4.zip', undefined, undefined, { ...options, defaultFolderId: 'folder-default' });
+  assert.deepEqual(drive.state.uploads[3].metadata.parents, ['folder-default']);
+
+  // An expired token is reported as UNAUTHORIZED; other failures go through the shared classification.
+  await expectApiError(saveToDrive('expired-token', fileData, 'story.zip', undefined, 'Stories', options), 'UNAUTHORIZED');
+  drive.state.failUploadsWith = 503;
+  await expectApiError(saveToDrive(VALID_TOKEN, fileData, 'story.zip', 'folder-1', undefined, options), 'UPSTREAM_UNAVAILABLE');
+
+  console.log(`Drive upload checks passed (${drive.state.requests.length} requests to the fake Drive API).`);
+} finally {
+  await drive.close();
+  await vite.close();
+}
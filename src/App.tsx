@@ -1,21 +1,107 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ContentGenerator } from './components/ContentGenerator';
 import { ImageEditor } from './components/ImageEditor';
 import { StoryBoardGenerator } from './components/StoryBoardGenerator';
-import { SparklesIcon, PhotoIcon, FilmIcon, VideoCameraIcon } from './components/Icons';
+import { SparklesIcon, PhotoIcon, FilmIcon, VideoCameraIcon, ArchiveBoxIcon } from './components/Icons';
 import { VideoPromptGenerator } from './components/VideoPromptGenerator';
+import { ContentLibrary } from './components/ContentLibrary';
+import { ProjectMenu } from './components/ProjectMenu';
+import { BrandKitButton } from './components/BrandKitEditor';
+import { ServedByBadge } from './components/ServedByBadge';
+import { autoSaveLibraryItem, buildLibraryItem } from './services/contentLibrary';
+import type { LibraryItemInput } from './services/contentLibrary';
+import { loadBrandProfiles, saveBrandProfiles, loadActiveProfileId, saveActiveProfileId } from './services/brandProfiles';
+import { loadBrandKit, saveBrandKit } from './services/brandKit';
+import { projectToSnapshot } from './services/projectFile';
+import { MAX_IMPORTED_IMAGE_SIDE, downscaleImage } from './utils/fileUtils';
+import type { Project, ProjectSnapshot } from './services/projectFile';
+import type { BrandKit, BrandProfile, GeneratedImages, LibraryItem, StoryboardLibraryItem, VideoPromptsLibraryItem } from './types';
 
-type Tab = 'generator' | 'editor' | 'video' | 'storyboard';
-
-export interface GeneratedImages {
-  withOverlay: string;
-  withoutOverlay: string;
-}
+type Tab = 'generator' | 'editor' | 'video' | 'storyboard' | 'library';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('generator');
   const [quote, setQuote] = useState<string>('');
   const [generatedImages, setGeneratedImages] = useState<GeneratedImages>({ withOverlay: '', withoutOverlay: '' });
+  // The latest saved video prompt set and storyboard, restored when their tab is shown again.
+  const [videoItem, setVideoItem] = useState<VideoPromptsLibraryItem | null>(null);
+  const [storyboardItem, setStoryboardItem] = useState<StoryboardLibraryItem | null>(null);
+  // Bumped on project import so the video and storyboard tabs remount with the imported content.
+  const [projectRevision, setProjectRevision] = useState<number>(0);
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(loadBrandProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(loadActiveProfileId);
+  const activeProfile = brandProfiles.find(profile => profile.id === activeProfileId) ?? brandProfiles[0];
+  const [brandKit, setBrandKit] = useState<BrandKit>(loadBrandKit);
+
+  useEffect(() => {
+    saveBrandProfiles(brandProfiles);
+  }, [brandProfiles]);
+
+  useEffect(() => {
+    saveActiveProfileId(activeProfile.id);
+  }, [activeProfile.id]);
+
+  useEffect(() => {
+    saveBrandKit(brandKit);
+  }, [brandKit]);
+
+  const getProjectSnapshot = useCallback((): ProjectSnapshot => ({
+    name: storyboardItem?.data.topic || quote.slice(0, 60) || 'project',
+    quote,
+    images: generatedImages,
+    ...(videoItem && videoItem.data.quote === quote && videoItem.data.image === generatedImages.withoutOverlay
+      ? { videoPrompts: videoItem.data.prompts, videoSettings: videoItem.data.settings }
+      : { videoPrompts: [] }),
+    storyboard: storyboardItem?.data,
+  }), [quote, generatedImages, videoItem, storyboardItem]);
+
+  const handleImportProject = useCallback(async (project: Project) => {
+    const snapshot = projectToSnapshot(project);
+    // Imported work goes into the library like anything generated here; it still opens if the library is unavailable.
+    const save = async <I extends LibraryItemInput>(input: I) => (await autoSaveLibraryItem(input)) ?? buildLibraryItem(input);
+
+    setQuote(snapshot.quote);
+    setGeneratedImages(snapshot.images);
+    setVideoItem(snapshot.videoPrompts.length
+      ? await save({ kind: 'videoPrompts', data: {
+        quote: snapshot.quote, image: snapshot.images.withoutOverlay, imageUploaded: snapshot.images.uploaded,
+        prompts: snapshot.videoPrompts, settings: snapshot.videoSettings,
+      } })
+      : null);
+    setStoryboardItem(snapshot.storyboard ? await save({ kind: 'storyboard', data: snapshot.storyboard }) : null);
+    setProjectRevision(prev => prev + 1);
+  }, []);
+
+  // Images from the editor or the video tab become the Content Generator's background, which overlays the quote on it.
+  const handleUseOwnImage = useCallback(async (image: string) => {
+    const background = await downscaleImage(image, MAX_IMPORTED_IMAGE_SIDE);
+    setGeneratedImages({ withOverlay: '', withoutOverlay: background, uploaded: true });
+  }, []);
+
+  const handleOpenLibraryItem = useCallback((item: LibraryItem) => {
+    switch (item.kind) {
+      case 'text':
+        setQuote(item.data.text);
+        setGeneratedImages({ withOverlay: '', withoutOverlay: '' });
+        setActiveTab('generator');
+        break;
+      case 'image':
+        setQuote(item.data.quote);
+        setGeneratedImages(item.data.images);
+        setActiveTab('generator');
+        break;
+      case 'videoPrompts':
+        setQuote(item.data.quote);
+        setGeneratedImages({ withOverlay: '', withoutOverlay: item.data.image, uploaded: item.data.imageUploaded });
+        setVideoItem(item);
+        setActiveTab('video');
+        break;
+      case 'storyboard':
+        setStoryboardItem(item);
+        setActiveTab('storyboard');
+        break;
+    }
+  }, []);
 
   const renderActiveTab = useCallback(() => {
     switch (activeTab) {
@@ -25,34 +111,51 @@ const App: React.FC = () => {
                   setQuote={setQuote} 
                   generatedImages={generatedImages}
                   setGeneratedImages={setGeneratedImages}
+                  profiles={brandProfiles}
+                  activeProfile={activeProfile}
+                  onSelectProfile={setActiveProfileId}
+                  onChangeProfiles={setBrandProfiles}
+                  brandKit={brandKit}
                 />;
       case 'editor':
-        return <ImageEditor />;
+        return <ImageEditor onUseImage={async (image) => { await handleUseOwnImage(image); setActiveTab('generator'); }} />;
       case 'video':
-        return <VideoPromptGenerator quote={quote} image={generatedImages.withoutOverlay} />;
+        return <VideoPromptGenerator key={projectRevision} quote={quote} image={generatedImages.withoutOverlay} imageUploaded={generatedImages.uploaded} profile={activeProfile} savedItem={videoItem} onSaved={setVideoItem} onUseImage={handleUseOwnImage} />;
       case 'storyboard':
-        return <StoryBoardGenerator />;
+        return <StoryBoardGenerator key={projectRevision} profile={activeProfile} brandKit={brandKit} savedItem={storyboardItem} onSaved={setStoryboardItem} />;
+      case 'library':
+        return <ContentLibrary onOpen={handleOpenLibraryItem} />;
       default:
         return <ContentGenerator 
                   quote={quote} 
                   setQuote={setQuote} 
                   generatedImages={generatedImages}
                   setGeneratedImages={setGeneratedImages}
+                  profiles={brandProfiles}
+                  activeProfile={activeProfile}
+                  onSelectProfile={setActiveProfileId}
+                  onChangeProfiles={setBrandProfiles}
+                  brandKit={brandKit}
                 />;
     }
-  }, [activeTab, quote, generatedImages]);
+  }, [activeTab, quote, generatedImages, videoItem, storyboardItem, projectRevision, brandProfiles, activeProfile, brandKit, handleOpenLibraryItem, handleUseOwnImage]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col">
       <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 sticky top-0 z-20">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-start h-16">
+          <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-3">
               <SparklesIcon className="h-8 w-8 text-indigo-400" />
               <h1 className="text-xl font-bold tracking-tight text-gray-200">
                 AI Media Content Package Assembler
               </h1>
             </div>
+            <div className="flex items-center gap-2">
+              <ServedByBadge />
+              <BrandKitButton kit={brandKit} onChange={setBrandKit} />
+              <ProjectMenu getSnapshot={getProjectSnapshot} onImport={handleImportProject} />
+            </div>
           </div>
         </div>
       </header>
@@ -85,6 +188,12 @@ const App: React.FC = () => {
                 isActive={activeTab === 'storyboard'}
                 onClick={() => setActiveTab('storyboard')}
               />
+              <TabButton
+                label="Library"
+                icon={<ArchiveBoxIcon className="h-5 w-5 mr-2" />}
+                isActive={activeTab === 'library'}
+                onClick={() => setActiveTab('library')}
+              />
             </nav>
           </div>
           <div className="p-4 sm:p-6 lg:p-8">
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import {
+  DEFAULT_ADJUSTMENTS, CROP_RATIOS, IMAGE_FORMATS, MAX_RESIZE_WIDTH, MIN_RESIZE_WIDTH, adjustedSize, applyAdjustments, describeAdjustments,
+  isDefaultAdjustments,
+} from '../utils/imageAdjustments';
+import { loadImage } from '../utils/fileUtils';
+import { Spinner } from './Spinner';
+import type { ImageAdjustments, ImageFormat } from '../types';
+
+interface AdjustmentsPanelProps {
+  title: string;
+  image: string;
+  onApply: (image: string, adjustments: ImageAdjustments) => void;
+}
+
+// Re-rendering a large image on every slider tick is slow; wait until the slider settles.
+const PREVIEW_DELAY_MS = 200;
+
+export const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ title, image, onApply }) => {
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  // The width as typed; adjustments only take it once it is a whole number within the bounds.
+  const [widthText, setWidthText] = useState<string>('');
+  const [sourceSize, setSourceSize] = useState<{ width: number, height: number } | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image)
+      .then(loaded => { if (!cancelled) setSourceSize({ width: loaded.naturalWidth, height: loaded.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = await applyAdjustments(image, adjustments);
+        if (!cancelled) {
+          setPreview(rendered);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError('Failed to apply the adjustments to this image.');
+        console.error(err);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, adjustments]);
+
+  // Renders again rather than reusing the preview, which may lag the last slider change.
+  const handleApply = async () => {
+    if (!canApply) return;
+    setIsApplying(true);
+    try {
+      onApply(await applyAdjustments(image, adjustments), adjustments);
+    } catch (err) {
+      setError('Failed to apply the adjustments to this image.');
+      console.error(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const update = (changes: Partial<ImageAdjustments>) => setAdjustments(prev => ({ ...prev, ...changes }));
+
+  const handleWidthChange = (text: string) => {
+    setWidthText(text);
+    const width = Number(text);
+    if (!text.trim()) update({ width: null });
+    else if (Number.isInteger(width) && width >= MIN_RESIZE_WIDTH && width <= MAX_RESIZE_WIDTH) update({ width });
+  };
+
+  const handleReset = () => {
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    setWidthText('');
+  };
+  const rotate = (quarterTurns: number) =>
+    update({ rotation: (((adjustments.rotation + quarterTurns * 90) % 360 + 360) % 360) as ImageAdjustments['rotation'] });
+
+  const outputSize = sourceSize && adjustedSize(adjustments, sourceSize.width, sourceSize.height);
+  // Base64 carries 4 characters for every 3 bytes.
+  const previewKb = preview ? Math.round((preview.length - preview.indexOf(',') - 1) * 0.75 / 1024) : null;
+  const isWidthValid = !widthText.trim() || adjustments.width === Number(widthText);
+  // Applying the defaults would only re-encode the image, so it is not offered.
+  const canApply = isWidthValid && !isDefaultAdjustments(adjustments);
+  const formatLabel = IMAGE_FORMATS.find(option => option.value === adjustments.format)?.label;
+
+  const inputClasses = "w-full px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+  const toggleClasses = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md font-semibold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  const slider = (label: string, key: 'cropZoom' | 'cropX' | 'cropY' | 'brightness' | 'contrast' | 'saturation' | 'blur' | 'vignette' | 'quality', min: number, max: number, step: number, display: string) => (
+    <label className="text-xs text-gray-400 space-y-1">
+      <span>{label} ({display})</span>
+      <input type="range" min={min} max={max} step={step} value={adjustments[key]} onChange={(e) => update({ [key]: Number(e.target.value) })} className="w-full accent-indigo-500" />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold text-center text-gray-300 truncate" title={title}>{title}</h3>
+      <div className="aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center p-2 overflow-hidden">
+        {preview ? <img src={preview} alt="Adjusted preview" className="object-contain w-full h-full rounded-md" /> : <Spinner size="large" />}
+      </div>
+      {outputSize && (
+        <p className="text-xs text-gray-400 text-center">
+          {outputSize.width}×{outputSize.height} · {formatLabel}{previewKb !== null ? ` · ${previewKb} KB` : ''}
+        </p>
+      )}
+
+      <div className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Crop ratio</span>
+            <select value={adjustments.cropRatio ?? ''} onChange={(e) => update({ cropRatio: e.target.value || null })} className={inputClasses}>
+              <option value="">Original</option>
+              {CROP_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </label>
+          {slider('Crop size', 'cropZoom', 0.2, 1, 0.01, `${Math.round(adjustments.cropZoom * 100)}%`)}
+          {slider('Horizontal position', 'cropX', 0, 1, 0.01, `${Math.round(adjustments.cropX * 100)}%`)}
+          {slider('Vertical position', 'cropY', 0, 1, 0.01, `${Math.round(adjustments.cropY * 100)}%`)}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => rotate(-1)} className={toggleClasses(false)}>Rotate left</button>
+          <button type="button" onClick={() => rotate(1)} className={toggleClasses(false)}>Rotate right</button>
+          <button type="button" onClick={() => update({ flipHorizontal: !adjustments.flipHorizontal })} className={toggleClasses(adjustments.flipHorizontal)}>Flip horizontal</button>
+          <button type="button" onClick={() => update({ flipVertical: !adjustments.flipVertical })} className={toggleClasses(adjustments.flipVertical)}>Flip vertical</button>
+        </div>
+
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>Width in pixels (height follows; leave empty to keep the size)</span>
+          <input
+            type="number"
+            min={MIN_RESIZE_WIDTH}
+            max={MAX_RESIZE_WIDTH}
+            step={1}
+            value={widthText}
+            onChange={(e) => handleWidthChange(e.target.value)}
+            placeholder={outputSize ? String(outputSize.width) : ''}
+            className={inputClasses}
+          />
+          {!isWidthValid && <span className="block text-red-400">Enter a whole number from {MIN_RESIZE_WIDTH} to {MAX_RESIZE_WIDTH}.</span>}
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          {slider('Brightness', 'brightness', 0, 2, 0.05, `${Math.round(adjustments.brightness * 100)}%`)}
+          {slider('Contrast', 'contrast', 0, 2, 0.05, `${Math.round(adjustments.contrast * 100)}%`)}
+          {slider('Saturation', 'saturation', 0, 2, 0.05, `${Math.round(adjustments.saturation * 100)}%`)}
+          {slider('Blur', 'blur', 0, 0.05, 0.0025, adjustments.blur > 0 ? `${Math.round(adjustments.blur * 1000) / 10}%` : 'off')}
+          {slider('Vignette', 'vignette', 0, 1, 0.05, adjustments.vignette > 0 ? `${Math.round(adjustments.vignette * 100)}%` : 'off')}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Format</span>
+            <select value={adjustments.format} onChange={(e) => update({ format: e.target.value as ImageFormat })} className={inputClasses}>
+              {IMAGE_FORMATS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          {adjustments.format !== 'image/png' && slider('Quality', 'quality', 0.3, 1, 0.01, `${Math.round(adjustments.quality * 100)}%`)}
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        <div className="flex gap-2">
+          <button type="button" onClick={handleReset} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors">
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isApplying || !canApply}
+            className="flex-grow px-4 py-2 bg-teal-600 hover:bg-teal-500 rounded-lg text-white font-semibold transition-colors disabled:bg-teal-400 disabled:cursor-not-allowed"
+            title={canApply ? describeAdjustments(adjustments) : undefined}
+          >
+            {isApplying ? <Spinner size="small" /> : 'Apply adjustments'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { generateContentBatch } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import { MAX_AVOID_TEXT_LENGTH } from '../services/apiActions';
+import { listLibraryItems, libraryPostTexts, autoSaveLibraryItem } from '../services/contentLibrary';
+import { dedupeTexts } from '../utils/textSimilarity';
+import { Spinner } from './Spinner';
+import { SparklesIcon, PhotoIcon, XMarkIcon, ArchiveBoxIcon } from './Icons';
+import type { BrandProfile } from '../types';
+
+interface BatchContentPanelProps {
+  generationType: 'quote' | 'tip';
+  profile: BrandProfile;
+  /** Sends one item on to image generation. */
+  onUse: (text: string) => void;
+}
+
+interface BatchItem {
+  id: string;
+  text: string;
+  selected: boolean;
+}
+
+const MIN_COUNT = 2;
+const MAX_COUNT = 31;
+// Recent library posts sent to the model as "do not repeat" examples; the full library is still
+// checked locally after generation. Posts longer than the API accepts are only checked locally.
+const MAX_AVOID = 50;
+
+const loadLibraryTexts = async (): Promise<string[]> => {
+  try {
+    return libraryPostTexts(await listLibraryItems());
+  } catch (err) {
+    console.warn('Could not read the content library for de-duplication:', err);
+    return [];
+  }
+};
+
+const avoidExamples = (texts: string[]) => texts.filter(text => text.length <= MAX_AVOID_TEXT_LENGTH).slice(0, MAX_AVOID);
+
+export const BatchContentPanel: React.FC<BatchContentPanelProps> = ({ generationType, profile, onUse }) => {
+  const [count, setCount] = useState<number>(10);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [droppedCount, setDroppedCount] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = generationType === 'quote' ? 'quotes' : 'tips';
+
+  const handleGenerate = async () => {
+    setIsLoading(true);
+    setError(null);
+    setSavedMessage(null);
+    try {
+      const existing = await loadLibraryTexts();
+      const candidates = await generateContentBatch(generationType, count, avoidExamples(existing), profile);
+      const { unique, duplicates } = dedupeTexts(candidates, existing);
+      setItems(unique.map(text => ({ id: crypto.randomUUID(), text, selected: true })));
+      setDroppedCount(duplicates.length);
+    } catch (err) {
+      setError(describeError(err, `Failed to generate a batch of ${label}. Please try again.`));
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  const discardItem = (id: string) => setItems(prev => prev.filter(item => item.id !== id));
+
+  const selectedItems = items.filter(item => item.selected && item.text.trim());
+
+  const handleSaveSelected = async () => {
+    const saved = await Promise.all(selectedItems.map(item =>
+      autoSaveLibraryItem({ kind: 'text', data: { type: generationType, text: item.text.trim() } })));
+    const savedIds = new Set(selectedItems.filter((_, index) => saved[index]).map(item => item.id));
+    setItems(prev => prev.filter(item => !savedIds.has(item.id)));
+    setSavedMessage(`Saved ${savedIds.size} ${label} to the library.`);
+  };
+
+  const handleUse = (item: BatchItem) => {
+    const text = item.text.trim();
+    if (!text) return;
+    autoSaveLibraryItem({ kind: 'text', data: { type: generationType, text } });
+    onUse(text);
+  };
+
+  return (
+    <div className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-200">Batch mode</h3>
+        <p className="text-sm text-gray-400">
+          Plan ahead: generate several {label} at once. Near-duplicates of each other and of your library are dropped.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={MIN_COUNT}
+          max={MAX_COUNT}
+          value={count}
+          onChange={(e) => setCount(Math.min(MAX_COUNT, Math.max(MIN_COUNT, Number(e.target.value) || MIN_COUNT)))}
+          aria-label={`Number of ${label}`}
+          className="w-20 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={handleGenerate}
+          disabled={isLoading}
+          className="flex-grow flex items-center justify-center px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-colors duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Spinner size="small" /> : <><SparklesIcon className="h-5 w-5 mr-2" /> Generate {count} {label}</>}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {droppedCount > 0 && (
+        <p className="text-sm text-yellow-300">
+          {droppedCount} near-duplicate{droppedCount === 1 ? '' : 's'} dropped.
+        </p>
+      )}
+      {savedMessage && <p className="text-sm text-green-400">{savedMessage}</p>}
+
+      {items.length > 0 && (
+        <>
+          <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+            {items.map((item, index) => (
+              <li key={item.id} className="flex items-start gap-2 bg-gray-700/50 p-2 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={item.selected}
+                  onChange={(e) => updateItem(item.id, { selected: e.target.checked })}
+                  aria-label={`Keep item ${index + 1}`}
+                  className="mt-2 h-4 w-4 accent-indigo-500"
+                />
+                <textarea
+                  value={item.text}
+                  onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                  rows={2}
+                  className="flex-grow px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+                />
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => handleUse(item)}
+                    disabled={!item.text.trim()}
+                    className="p-1.5 bg-teal-600 hover:bg-teal-500 rounded-md text-white transition-colors disabled:opacity-50"
+                    aria-label="Use for image generation"
+                    title="Use for image generation"
+                  >
+                    <PhotoIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => discardItem(item.id)}
+                    className="p-1.5 bg-gray-600 hover:bg-red-700 rounded-md text-white transition-colors"
+                    aria-label="Discard"
+                    title="Discard"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleSaveSelected}
+            disabled={selectedItems.length === 0}
+            className="w-full flex items-center justify-center px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-200 disabled:opacity-50"
+          >
+            <ArchiveBoxIcon className="h-5 w-5 mr-2" />
+            Save {selectedItems.length} selected to library
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MAX_LOGO_BYTES, normalizeBrandKit, normalizeHexColor } from '../services/brandKit';
+import { OVERLAY_FONTS } from '../utils/textOverlay';
+import { fileToBase64 } from '../utils/fileUtils';
+import type { BrandKit, WatermarkPosition } from '../types';
+import { SwatchIcon, XMarkIcon, ArrowUpTrayIcon } from './Icons';
+
+interface BrandKitButtonProps {
+  kit: BrandKit;
+  onChange: (kit: BrandKit) => void;
+}
+
+const positionLabels: Record<WatermarkPosition, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+export const BrandKitButton: React.FC<BrandKitButtonProps> = ({ kit, onChange }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-semibold text-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
+      >
+        <SwatchIcon className="h-5 w-5 mr-2" />
+        Brand Kit
+      </button>
+      {isOpen && (
+        <BrandKitModal
+          kit={kit}
+          onSave={(updated) => { onChange(normalizeBrandKit(updated)); setIsOpen(false); }}
+          onClose={() => setIsOpen(false)}
+        />
+      )}
+    </>
+  );
+};
+
+interface BrandKitModalProps {
+  kit: BrandKit;
+  onSave: (kit: BrandKit) => void;
+  onClose: () => void;
+}
+
+const BrandKitModal: React.FC<BrandKitModalProps> = ({ kit, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BrandKit>(kit);
+  // Lists are edited as text: colors and keywords comma separated.
+  const [palette, setPalette] = useState<string>(kit.palette.join(', '));
+  const [styleKeywords, setStyleKeywords] = useState<string>(kit.styleKeywords.join(', '));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const paletteColors = palette.split(',').map(normalizeHexColor).filter((color): color is string => !!color);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/svg+xml') {
+      setError('The logo must be a PNG or SVG file.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`The logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB.`);
+      return;
+    }
+    try {
+      const logo = await fileToBase64(file);
+      setDraft(prev => ({ ...prev, logo }));
+      setError(null);
+    } catch (err) {
+      setError('Failed to read the logo file.');
+      console.error(err);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...draft, palette: palette.split(','), styleKeywords: styleKeywords.split(',') });
+  };
+
+  const updateWatermark = (changes: Partial<BrandKit['watermark']>) =>
+    setDraft(prev => ({ ...prev, watermark: { ...prev.watermark, ...changes } }));
+
+  const inputClasses = "mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-gray-800 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700"
+      >
+        <div className="sticky top-0 bg-gray-800/80 backdrop-blur-sm z-10 p-6 border-b border-gray-700 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-100">Brand Kit</h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-5">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="h-4 w-4 accent-indigo-500"
+            />
+            Apply the brand kit to generated images and prompts
+          </label>
+
+          <div>
+            <span className="text-sm font-semibold text-gray-300">Logo (PNG or SVG)</span>
+            <div className="mt-1 flex items-center gap-4">
+              <div className="w-16 h-16 bg-gray-700 rounded-lg flex-shrink-0 flex items-center justify-center border-2 border-dashed border-gray-500 overflow-hidden">
+                {draft.logo ? <img src={draft.logo} alt="Brand logo" className="max-w-full max-h-full object-contain" /> : <SwatchIcon className="h-8 w-8 text-gray-500" />}
+              </div>
+              <input type="file" ref={fileInputRef} onChange={handleLogoChange} accept="image/png,image/svg+xml" className="hidden" />
+              <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold text-sm transition-colors">
+                <ArrowUpTrayIcon className="h-4 w-4 mr-2" /> Upload
+              </button>
+              {draft.logo && (
+                <button type="button" onClick={() => setDraft(prev => ({ ...prev, logo: null }))} className="px-3 py-2 bg-red-800 hover:bg-red-700 rounded-lg text-white font-semibold text-sm transition-colors">
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-300">Social handle</span>
+            <input
+              type="text"
+              value={draft.handle}
+              onChange={(e) => setDraft(prev => ({ ...prev, handle: e.target.value }))}
+              placeholder="e.g. @newmoneymillionaires"
+              maxLength={100}
+              className={inputClasses}
+            />
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-300">Watermark position</span>
+              <select value={draft.watermark.position} onChange={(e) => updateWatermark({ position: e.target.value as WatermarkPosition })} className={inputClasses}>
+                {Object.entries(positionLabels).map(([position, label]) => <option key={position} value={position}>{label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-300">Opacity ({Math.round(draft.watermark.opacity * 100)}%)</span>
+              <input type="range" min={0.1} max={1} step={0.05} value={draft.watermark.opacity} onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })} className="mt-3 w-full accent-indigo-500" />
+            </label>
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-300">Logo size ({Math.round(draft.watermark.size * 100)}%)</span>
+              <input type="range" min={0.04} max={0.2} step={0.01} value={draft.watermark.size} onChange={(e) => updateWatermark({ size: Number(e.target.value) })} className="mt-3 w-full accent-indigo-500" />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-300">Palette (hex colors, comma separated, primary first)</span>
+            <input
+              type="text"
+              value={palette}
+              onChange={(e) => setPalette(e.target.value)}
+              placeholder="e.g. #0f172a, #facc15, #ffffff"
+              className={inputClasses}
+            />
+            {paletteColors.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {paletteColors.map(color => <span key={color} title={color} className="h-6 w-6 rounded border border-gray-500" style={{ backgroundColor: color }} />)}
+              </div>
+            )}
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {(['heading', 'body'] as const).map(role => (
+              <label key={role} className="block">
+                <span className="text-sm font-semibold text-gray-300">{role === 'heading' ? 'Heading font (quotes)' : 'Body font (handle, secondary lines)'}</span>
+                <select
+                  value={draft.fonts[role]}
+                  onChange={(e) => setDraft(prev => ({ ...prev, fonts: { ...prev.fonts, [role]: e.target.value } }))}
+                  className={inputClasses}
+                >
+                  {OVERLAY_FONTS.map(font => <option key={font.family} value={font.family}>{font.family}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-300">Style keywords for image prompts (comma separated)</span>
+            <input
+              type="text"
+              value={styleKeywords}
+              onChange={(e) => setStyleKeywords(e.target.value)}
+              placeholder="e.g. minimalist, golden hour, luxury editorial"
+              className={inputClasses}
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+        <div className="p-6 pt-0 flex items-center gap-2">
+          <button type="button" onClick={onClose} className="ml-auto px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-colors">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
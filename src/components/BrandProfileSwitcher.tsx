@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { createBrandProfile, normalizeBrandProfile } from '../services/brandProfiles';
+import type { BrandProfile } from '../types';
+import { UserCircleIcon, XMarkIcon, TrashIcon } from './Icons';
+
+interface BrandProfileSwitcherProps {
+  profiles: BrandProfile[];
+  activeProfile: BrandProfile;
+  onSelect: (id: string) => void;
+  onChange: (profiles: BrandProfile[]) => void;
+}
+
+export const BrandProfileSwitcher: React.FC<BrandProfileSwitcherProps> = ({ profiles, activeProfile, onSelect, onChange }) => {
+  const [editing, setEditing] = useState<BrandProfile | null>(null);
+
+  const handleSave = (profile: BrandProfile) => {
+    const cleaned = normalizeBrandProfile(profile);
+    const exists = profiles.some(other => other.id === cleaned.id);
+    onChange(exists ? profiles.map(other => other.id === cleaned.id ? cleaned : other) : [...profiles, cleaned]);
+    onSelect(cleaned.id);
+    setEditing(null);
+  };
+
+  const handleDelete = (profile: BrandProfile) => {
+    if (profiles.length <= 1 || !window.confirm(`Delete the "${profile.name}" brand profile?`)) return;
+    const remaining = profiles.filter(other => other.id !== profile.id);
+    onChange(remaining);
+    if (profile.id === activeProfile.id) onSelect(remaining[0].id);
+    setEditing(null);
+  };
+
+  const buttonClasses = "px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-semibold text-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <UserCircleIcon className="h-6 w-6 text-indigo-400" />
+      <label htmlFor="brand-profile" className="text-sm font-semibold text-gray-300">Brand</label>
+      <select
+        id="brand-profile"
+        value={activeProfile.id}
+        onChange={(e) => onSelect(e.target.value)}
+        className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+      </select>
+      <button onClick={() => setEditing(activeProfile)} className={buttonClasses}>Edit</button>
+      <button onClick={() => setEditing(createBrandProfile())} className={buttonClasses}>New</button>
+      {editing && (
+        <BrandProfileModal
+          profile={editing}
+          canDelete={profiles.length > 1 && profiles.some(other => other.id === editing.id)}
+          onSave={handleSave}
+          onDelete={() => handleDelete(editing)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface BrandProfileModalProps {
+  profile: BrandProfile;
+  canDelete: boolean;
+  onSave: (profile: BrandProfile) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const BrandProfileModal: React.FC<BrandProfileModalProps> = ({ profile, canDelete, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<BrandProfile>(profile);
+  // Lists are edited as text: banned words comma separated, example posts one per line.
+  const [bannedWords, setBannedWords] = useState<string>(profile.bannedWords.join(', '));
+  const [examplePosts, setExamplePosts] = useState<string>(profile.examplePosts.join('\n'));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...draft, bannedWords: bannedWords.split(','), examplePosts: examplePosts.split('\n') });
+  };
+
+  const field = (key: 'name' | 'topicDomain' | 'audience' | 'readingLevel' | 'tone', label: string, placeholder: string, maxLength: number) => (
+    <label className="block">
+      <span className="text-sm font-semibold text-gray-300">{label}</span>
+      <input
+        type="text"
+        value={draft[key]}
+        onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+        placeholder={placeholder}
+        maxLength={maxLength}
+        required={key === 'name' || key === 'topicDomain'}
+        className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-gray-800 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700"
+      >
+        <div className="sticky top-0 bg-gray-800/80 backdrop-blur-sm z-10 p-6 border-b border-gray-700 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-100">Brand Profile</h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          {field('name', 'Name', 'e.g. Fitness', 100)}
+          {field('topicDomain', 'Topic domain', 'e.g. fitness and strength training', 200)}
+          {field('audience', 'Target audience', 'e.g. busy parents in their 30s', 500)}
+          {field('readingLevel', 'Reading level', 'e.g. plain English, grade 6', 100)}
+          {field('tone', 'Tone of voice', 'e.g. warm, direct and upbeat', 200)}
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-300">Banned words (comma separated)</span>
+            <input
+              type="text"
+              value={bannedWords}
+              onChange={(e) => setBannedWords(e.target.value)}
+              className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-300">Example posts (one per line, up to 10)</span>
+            <textarea
+              value={examplePosts}
+              onChange={(e) => setExamplePosts(e.target.value)}
+              rows={4}
+              className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+            />
+          </label>
+        </div>
+        <div className="p-6 pt-0 flex items-center gap-2">
+          {canDelete && (
+            <button type="button" onClick={onDelete} className="flex items-center px-4 py-2 bg-red-800 hover:bg-red-700 rounded-lg text-white font-semibold transition-colors">
+              <TrashIcon className="h-5 w-5 mr-2" /> Delete
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="ml-auto px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-colors">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,74 +1,216 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { generateContent, generateImageWithQuote } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
 import { Spinner } from './Spinner';
-import { SparklesIcon, PhotoIcon, SettingsIcon, EyeIcon, ArrowPathIcon } from './Icons';
+import { SparklesIcon, PhotoIcon, SettingsIcon, EyeIcon, ArrowPathIcon, ArrowUpTrayIcon } from './Icons';
 import { ImageModal } from './ImageModal';
-import type { GeneratedImages } from '../App';
+import { BatchContentPanel } from './BatchContentPanel';
+import { PlatformExportPanel } from './PlatformExportPanel';
+import { PostCopyPanel } from './PostCopyPanel';
+import { BrandProfileSwitcher } from './BrandProfileSwitcher';
+import { TextOverlayControls } from './TextOverlayControls';
+import { renderTextOverlay } from '../utils/textOverlay';
+import { applyWatermark } from '../utils/watermark';
+import { MAX_IMPORTED_IMAGE_SIDE, blobToBase64, downscaleImage, loadImage } from '../utils/fileUtils';
+import { brandOverlayStyle, brandPalette } from '../services/brandKit';
+import { autoSaveLibraryItem } from '../services/contentLibrary';
+import { ASPECT_RATIOS } from '../services/apiActions';
+import type { AspectRatio, BrandKit, BrandProfile, GeneratedImages, OverlayLayout, PostCopy, TextOverlayStyle } from '../types';
 
 interface ContentGeneratorProps {
   quote: string;
   setQuote: (quote: string) => void;
   generatedImages: GeneratedImages;
   setGeneratedImages: (images: GeneratedImages) => void;
+  profiles: BrandProfile[];
+  activeProfile: BrandProfile;
+  onSelectProfile: (id: string) => void;
+  onChangeProfiles: (profiles: BrandProfile[]) => void;
+  /** Sets the default quote font and palette swatches, and watermarks every rendered overlay. */
+  brandKit?: BrandKit;
 }
 
-export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQuote, generatedImages, setGeneratedImages }) => {
+const EMPTY_IMAGES: GeneratedImages = { withOverlay: '', withoutOverlay: '' };
+
+/** The supported ratio closest to the image's own, recorded with the image in the library. */
+const nearestAspectRatio = (width: number, height: number): AspectRatio => {
+  const distance = (ratio: AspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log((width / height) / (w / h)));
+  };
+  return ASPECT_RATIOS.reduce((best, ratio) => (distance(ratio) < distance(best) ? ratio : best));
+};
+
+export const ContentGenerator: React.FC<ContentGeneratorProps> = ({
+  quote, setQuote, generatedImages, setGeneratedImages, profiles, activeProfile, onSelectProfile, onChangeProfiles, brandKit,
+}) => {
   const [isLoadingContent, setIsLoadingContent] = useState<boolean>(false);
   const [isLoadingImage, setIsLoadingImage] = useState<boolean>(false);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [generationType, setGenerationType] = useState<'quote' | 'tip'>('quote');
-  const [aspectRatio, setAspectRatio] = useState<string>('1:1');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [isAspectRatioMenuOpen, setIsAspectRatioMenuOpen] = useState(false);
+  const [overlayStyle, setOverlayStyle] = useState<TextOverlayStyle>(() => brandOverlayStyle(brandKit));
+  // Library entry of the generated image, updated in place when its overlay is re-rendered.
+  const [imageLibraryEntry, setImageLibraryEntry] = useState<{ id: string, background: string } | null>(null);
+  const overlayRenderRef = useRef<number>(0);
 
-  const aspectRatios = ["1:1", "16:9", "9:16", "4:3", "3:4"];
   const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { withOverlay: imageUrl, withoutOverlay: imageWithoutOverlay } = generatedImages;
+  const { withOverlay: imageUrl, withoutOverlay: imageWithoutOverlay, postCopy, uploaded } = generatedImages;
+  // A new quote goes onto the user's own background; a generated background belongs to its quote.
+  const imagesForNewQuote = useMemo<GeneratedImages>(
+    () => (uploaded ? { withOverlay: '', withoutOverlay: imageWithoutOverlay, uploaded } : EMPTY_IMAGES),
+    [uploaded, imageWithoutOverlay],
+  );
 
   const handleGenerateContent = useCallback(async () => {
     setIsLoadingContent(true);
     setError(null);
     setQuote('');
-    setGeneratedImages({ withOverlay: '', withoutOverlay: '' });
+    setGeneratedImages(imagesForNewQuote);
     try {
-      const newContent = await generateContent(generationType);
+      const newContent = await generateContent(generationType, activeProfile);
       setQuote(newContent);
+      autoSaveLibraryItem({ kind: 'text', data: { type: generationType, text: newContent } });
     } catch (err) {
-      setError(`Failed to generate ${generationType}. Please try again.`);
+      setError(describeError(err, `Failed to generate ${generationType}. Please try again.`));
       console.error(err);
     } finally {
       setIsLoadingContent(false);
     }
-  }, [setQuote, generationType, setGeneratedImages]);
+  }, [setQuote, generationType, activeProfile, setGeneratedImages, imagesForNewQuote]);
+
+  // Saves the current image to the library, updating its entry while the background stays the same.
+  const saveImageToLibrary = useCallback(async (images: GeneratedImages) => {
+    const id = imageLibraryEntry?.background === images.withoutOverlay ? imageLibraryEntry.id : undefined;
+    const item = await autoSaveLibraryItem({ id, kind: 'image', data: { quote, aspectRatio, images } });
+    if (item) setImageLibraryEntry({ id: item.id, background: images.withoutOverlay });
+  }, [imageLibraryEntry, quote, aspectRatio]);
 
+  // Re-typesets the quote on the existing background from the preset style; no API call is made.
+  const handleOverlayStyleChange = useCallback(async (style: TextOverlayStyle) => {
+    setOverlayStyle(style);
+    if (!quote || !imageWithoutOverlay) return;
+    const render = ++overlayRenderRef.current;
+    try {
+      const withOverlay = await applyWatermark(await renderTextOverlay(imageWithoutOverlay, quote, style), brandKit);
+      if (render !== overlayRenderRef.current) return;
+      const images = { withOverlay, withoutOverlay: imageWithoutOverlay, postCopy, uploaded };
+      setGeneratedImages(images);
+      saveImageToLibrary(images);
+    } catch (err) {
+      setError('Failed to render the text overlay.');
+      console.error(err);
+    }
+  }, [quote, imageWithoutOverlay, postCopy, uploaded, brandKit, setGeneratedImages, saveImageToLibrary]);
+
+  // An uploaded background is kept: the quote is typeset onto it instead of generating a new image.
   const handleGenerateImage = useCallback(async () => {
     if (!quote) return;
+    if (uploaded && imageWithoutOverlay) {
+      handleOverlayStyleChange(overlayStyle);
+      return;
+    }
     setIsLoadingImage(true);
     setError(null);
-    setGeneratedImages({ withOverlay: '', withoutOverlay: '' });
+    setGeneratedImages(EMPTY_IMAGES);
     try {
-      const { withOverlay, withoutOverlay } = await generateImageWithQuote(quote, aspectRatio);
+      const { withOverlay, withoutOverlay } = await generateImageWithQuote(quote, aspectRatio, activeProfile, overlayStyle, brandKit);
       setGeneratedImages({ withOverlay, withoutOverlay });
+      saveImageToLibrary({ withOverlay, withoutOverlay });
     } catch (err) {
-      setError('Failed to generate image. Please try again.');
+      setError(describeError(err, 'Failed to generate image. Please try again.'));
       console.error(err);
     } finally {
       setIsLoadingImage(false);
     }
-  }, [quote, aspectRatio, setGeneratedImages]);
+  }, [quote, uploaded, imageWithoutOverlay, aspectRatio, activeProfile, overlayStyle, brandKit, setGeneratedImages, saveImageToLibrary, handleOverlayStyleChange]);
+
+  const handleDesignApplied = useCallback((withOverlay: string, overlayLayout: OverlayLayout) => {
+    overlayRenderRef.current++;
+    const images = { withOverlay, withoutOverlay: imageWithoutOverlay, overlayLayout, postCopy, uploaded };
+    setGeneratedImages(images);
+    saveImageToLibrary(images);
+  }, [imageWithoutOverlay, postCopy, uploaded, setGeneratedImages, saveImageToLibrary]);
+
+  // Uploaded and pasted images replace the background; the quote is typeset onto it by the effect below.
+  const handleOwnImage = useCallback(async (file: Blob) => {
+    if (!file.type.startsWith('image/')) {
+      setError('That file is not an image.');
+      return;
+    }
+    setError(null);
+    try {
+      const background = await downscaleImage(await blobToBase64(file), MAX_IMPORTED_IMAGE_SIDE);
+      overlayRenderRef.current++;
+      setGeneratedImages({ withOverlay: '', withoutOverlay: background, uploaded: true });
+    } catch (err) {
+      setError('Failed to read the image file.');
+      console.error(err);
+    }
+  }, [setGeneratedImages]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleOwnImage(file);
+  };
+
+  const handlePostCopyChange = useCallback((copy: PostCopy) => {
+    const images = { ...generatedImages, postCopy: copy };
+    setGeneratedImages(images);
+    saveImageToLibrary(images);
+  }, [generatedImages, setGeneratedImages, saveImageToLibrary]);
+
+  const handleUseBatchItem = useCallback((text: string) => {
+    setError(null);
+    setGeneratedImages(imagesForNewQuote);
+    setQuote(text);
+  }, [setQuote, setGeneratedImages, imagesForNewQuote]);
 
   const handleClear = () => {
     setQuote('');
-    setGeneratedImages({ withOverlay: '', withoutOverlay: '' });
+    setGeneratedImages(EMPTY_IMAGES);
     setError(null);
   };
 
   useEffect(() => {
-    if (!quote) {
-        setGeneratedImages({ withOverlay: '', withoutOverlay: '' });
+    if (!quote && (imageUrl || (imageWithoutOverlay && !uploaded))) {
+        setGeneratedImages(imagesForNewQuote);
+    }
+  }, [quote, imageUrl, imageWithoutOverlay, uploaded, imagesForNewQuote, setGeneratedImages]);
+
+  // Typesets the quote onto a background that arrived without one (an upload, or an image from the editor).
+  useEffect(() => {
+    if (quote && uploaded && imageWithoutOverlay && !imageUrl) {
+      handleOverlayStyleChange(overlayStyle);
     }
-  }, [quote, setGeneratedImages]);
+  }, [quote, uploaded, imageWithoutOverlay, imageUrl, overlayStyle, handleOverlayStyleChange]);
+
+  useEffect(() => {
+    if (!uploaded || !imageWithoutOverlay) return;
+    let cancelled = false;
+    loadImage(imageWithoutOverlay)
+      .then(image => { if (!cancelled) setAspectRatio(nearestAspectRatio(image.naturalWidth, image.naturalHeight)); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [uploaded, imageWithoutOverlay]);
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = Array.from(event.clipboardData?.files ?? []).find(candidate => candidate.type.startsWith('image/'));
+      if (!file) return;
+      event.preventDefault();
+      handleOwnImage(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [handleOwnImage]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -85,12 +227,19 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
 
   return (
     <>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6 pb-4 border-b border-gray-700">
+        <p className="text-sm text-gray-400">
+          Writing about <span className="font-semibold text-gray-200">{activeProfile.topicDomain || activeProfile.name}</span>
+          {activeProfile.audience && <> for <span className="font-semibold text-gray-200">{activeProfile.audience}</span></>}
+        </p>
+        <BrandProfileSwitcher profiles={profiles} activeProfile={activeProfile} onSelect={onSelectProfile} onChange={onChangeProfiles} />
+      </div>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
         <div className="space-y-6">
           <div>
             <h2 className="text-2xl font-bold text-gray-200 mb-2">Step 1: Generate Content</h2>
             <p className="text-gray-400 mb-4">
-              Select whether you want a motivational quote or an actionable tip, then click generate.
+              Select whether you want a motivational quote or an actionable tip, then click generate. Content follows the selected brand profile.
             </p>
             <div className="flex bg-gray-700/80 p-1 rounded-lg mb-4">
                 <button
@@ -122,6 +271,8 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
             </button>
           </div>
 
+          <BatchContentPanel generationType={generationType} profile={activeProfile} onUse={handleUseBatchItem} />
+
           {quote && (
             <div className="bg-gray-700/50 p-4 rounded-lg">
               <p className="text-lg italic text-gray-300">"{quote}"</p>
@@ -145,7 +296,7 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
                   <div className="absolute right-0 mt-2 w-48 bg-gray-700 rounded-md shadow-lg z-10 border border-gray-600">
                     <div className="p-2">
                       <p className="px-2 py-1 text-sm font-semibold text-gray-300">Aspect Ratio</p>
-                      {aspectRatios.map(ratio => (
+                      {ASPECT_RATIOS.map(ratio => (
                         <button
                           key={ratio}
                           onClick={() => {
@@ -168,8 +319,17 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
               </div>
             </div>
             <p className="text-gray-400 mb-4">
-              Use the generated content to create a beautiful image with the text automatically overlaid.
+              Use the generated content to create a beautiful image with the text automatically overlaid, or put it on your own photo. Style changes re-render the text instantly, without generating a new image.
             </p>
+            <div className="mb-4">
+              <TextOverlayControls
+                style={overlayStyle}
+                defaultStyle={brandOverlayStyle(brandKit)}
+                swatches={brandPalette(brandKit)}
+                onChange={handleOverlayStyleChange}
+                disabled={isLoadingImage}
+              />
+            </div>
              {imageUrl ? (
                <button
                 onClick={handleClear}
@@ -184,9 +344,20 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
                 disabled={!quote || isLoadingImage || isLoadingContent}
                 className="w-full flex items-center justify-center px-6 py-3 bg-teal-600 hover:bg-teal-500 rounded-lg text-white font-semibold transition-all duration-200 disabled:bg-teal-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500"
               >
-                {isLoadingImage ? <Spinner /> : <><PhotoIcon className="h-5 w-5 mr-2" /> Generate Image</>}
+                {isLoadingImage ? <Spinner /> : <><PhotoIcon className="h-5 w-5 mr-2" /> {uploaded && imageWithoutOverlay ? 'Add Text to Your Image' : 'Generate Image'}</>}
               </button>
             )}
+            <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm text-gray-400">
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/png,image/jpeg,image/webp" className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoadingImage}
+                className="flex items-center px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ArrowUpTrayIcon className="h-4 w-4 mr-2" /> Use your own image
+              </button>
+              <span>or paste one. Images from the Image Editor can be sent here too.</span>
+            </div>
           </div>
         </div>
 
@@ -219,6 +390,11 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
                       </div>
                   </div>
               </div>
+            ) : uploaded && imageWithoutOverlay ? (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-2">
+                <img src={imageWithoutOverlay} alt="Your background" className="object-contain w-full flex-grow min-h-0 rounded-md" />
+                {!quote && <p className="text-sm text-gray-400">Generate or pick a quote to put it on this image.</p>}
+              </div>
             ) : (
               <div className="text-center text-gray-500">
                 <PhotoIcon className="h-16 w-16 mx-auto" />
@@ -227,6 +403,19 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
             )}
           </div>
           {error && <p className="text-red-400 text-center">{error}</p>}
+          {imageUrl && imageWithoutOverlay && !isLoadingImage && (
+            <>
+              <PostCopyPanel text={quote} image={imageUrl} profile={activeProfile} postCopy={postCopy} onChange={handlePostCopyChange} />
+              <PlatformExportPanel
+                quote={quote}
+                background={imageWithoutOverlay}
+                style={overlayStyle}
+                profile={activeProfile}
+                brandKit={brandKit}
+                postCopy={postCopy}
+              />
+            </>
+          )}
         </div>
       </div>
       {isModalOpen && imageUrl && imageWithoutOverlay && (
@@ -235,6 +424,7 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ quote, setQu
           onClose={() => setIsModalOpen(false)}
           imageUrlWithOverlay={imageUrl}
           imageUrlWithoutOverlay={imageWithoutOverlay}
+          design={{ quote, style: overlayStyle, layout: generatedImages.overlayLayout, brandKit, onDesignApplied: handleDesignApplied }}
         />
       )}
     </>
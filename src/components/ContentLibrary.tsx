@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { listLibraryItems, updateLibraryItem, deleteLibraryItem, filterLibraryItems, libraryTags } from '../services/contentLibrary';
+import type { LibraryItem, LibraryItemKind } from '../types';
+import { Spinner } from './Spinner';
+import { ArchiveBoxIcon, StarIcon, TrashIcon, TagIcon, XMarkIcon, ArrowPathIcon } from './Icons';
+
+interface ContentLibraryProps {
+  /** Opens the item in the tab that produced it. */
+  onOpen: (item: LibraryItem) => void;
+}
+
+const kindLabels: Record<LibraryItemKind, string> = {
+  text: 'Quote / Tip',
+  image: 'Image',
+  videoPrompts: 'Video Prompts',
+  storyboard: 'Storyboard',
+};
+
+const openLabels: Record<LibraryItemKind, string> = {
+  text: 'Open in Content Generator',
+  image: 'Open in Content Generator',
+  videoPrompts: 'Open in Video Prompts',
+  storyboard: 'Open in Story Board',
+};
+
+export const ContentLibrary: React.FC<ContentLibraryProps> = ({ onOpen }) => {
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState<string>('');
+  const [kind, setKind] = useState<LibraryItemKind | ''>('');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [activeTag, setActiveTag] = useState<string>('');
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await listLibraryItems());
+    } catch (err) {
+      setError('Could not open the content library. Your browser may be blocking local storage.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const replaceItem = (updated: LibraryItem) => setItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+
+  const handleUpdate = async (item: LibraryItem, changes: Partial<Pick<LibraryItem, 'favorite' | 'tags'>>) => {
+    try {
+      replaceItem(await updateLibraryItem(item.id, changes));
+    } catch (err) {
+      setError('Failed to update the library item.');
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (item: LibraryItem) => {
+    if (!window.confirm(`Delete "${item.title}" from the library?`)) return;
+    try {
+      await deleteLibraryItem(item.id);
+      setItems(prev => prev.filter(other => other.id !== item.id));
+    } catch (err) {
+      setError('Failed to delete the library item.');
+      console.error(err);
+    }
+  };
+
+  const tags = useMemo(() => libraryTags(items), [items]);
+  const visibleItems = useMemo(
+    () => filterLibraryItems(items, { text: search, kind: kind || undefined, favoritesOnly, tag: activeTag || undefined }),
+    [items, search, kind, favoritesOnly, activeTag],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-200 mb-2">Content Library</h2>
+          <p className="text-gray-400">
+            Every quote, image, video prompt set and storyboard you generate is saved here in this browser.
+          </p>
+        </div>
+        <button
+          onClick={loadItems}
+          disabled={isLoading}
+          className="flex items-center justify-center px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-200 disabled:opacity-50"
+        >
+          <ArrowPathIcon className="h-5 w-5 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search titles, tags and content..."
+          className="flex-grow px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-shadow"
+        />
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as LibraryItemKind | '')}
+          className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">All types</option>
+          {(Object.keys(kindLabels) as LibraryItemKind[]).map(k => <option key={k} value={k}>{kindLabels[k]}</option>)}
+        </select>
+        <button
+          onClick={() => setFavoritesOnly(prev => !prev)}
+          aria-pressed={favoritesOnly}
+          className={`flex items-center justify-center px-4 py-3 rounded-lg font-semibold transition-colors duration-200 ${favoritesOnly ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+        >
+          <StarIcon className="h-5 w-5 mr-2" filled={favoritesOnly} />
+          Favorites
+        </button>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <TagIcon className="h-5 w-5 text-gray-400" />
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(prev => prev === tag ? '' : tag)}
+              className={`px-3 py-1 text-sm rounded-full transition-colors ${activeTag === tag ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-200 hover:bg-indigo-500'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-center bg-red-900/20 p-3 rounded-lg">{error}</p>}
+
+      {isLoading ? (
+        <div className="text-center text-gray-400 p-8">
+          <Spinner size="large" />
+        </div>
+      ) : visibleItems.length === 0 ? (
+        <div className="text-center text-gray-400 p-8 bg-gray-700/50 rounded-lg">
+          <ArchiveBoxIcon className="h-12 w-12 mx-auto text-gray-500" />
+          <p className="mt-4 text-lg font-semibold">{items.length === 0 ? 'Your library is empty.' : 'No items match your filters.'}</p>
+          {items.length === 0 && <p className="text-gray-500">Generated content is saved here automatically.</p>}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {visibleItems.map(item => (
+            <LibraryCard
+              key={item.id}
+              item={item}
+              onOpen={() => onOpen(item)}
+              onToggleFavorite={() => handleUpdate(item, { favorite: !item.favorite })}
+              onChangeTags={(newTags) => handleUpdate(item, { tags: newTags })}
+              onDelete={() => handleDelete(item)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const previewImage = (item: LibraryItem): string | null | undefined => {
+  switch (item.kind) {
+    case 'image': return item.data.images.withOverlay || item.data.images.withoutOverlay;
+    case 'videoPrompts': return item.data.image;
+    case 'storyboard': return item.data.thumbnail?.imageUrl ?? item.data.scenes.find(scene => scene.imageUrl)?.imageUrl;
+    default: return null;
+  }
+};
+
+const summary = (item: LibraryItem): string => {
+  switch (item.kind) {
+    case 'text': return item.data.type === 'tip' ? 'Tip of the day' : 'Motivational quote';
+    case 'image': return `Aspect ratio ${item.data.aspectRatio}`;
+    case 'videoPrompts': return `${item.data.prompts.length} prompts`;
+    case 'storyboard': {
+      const withImages = item.data.scenes.filter(scene => scene.imageUrl).length;
+      return `${item.data.scenes.length} scenes, ${withImages} with images`;
+    }
+  }
+};
+
+interface LibraryCardProps {
+  item: LibraryItem;
+  onOpen: () => void;
+  onToggleFavorite: () => void;
+  onChangeTags: (tags: string[]) => void;
+  onDelete: () => void;
+}
+
+const LibraryCard: React.FC<LibraryCardProps> = ({ item, onOpen, onToggleFavorite, onChangeTags, onDelete }) => {
+  const [tagInput, setTagInput] = useState<string>('');
+  const image = previewImage(item);
+
+  const handleAddTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagInput.trim()) return;
+    onChangeTags([...item.tags, ...tagInput.split(',')]);
+    setTagInput('');
+  };
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg border border-gray-600/50 flex flex-col overflow-hidden">
+      {image && <img src={image} alt={item.title} className="w-full h-40 object-cover" />}
+      <div className="p-5 space-y-3 flex-grow flex flex-col">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <span className="text-xs font-semibold bg-indigo-500/50 text-indigo-200 px-2 py-0.5 rounded-full">{kindLabels[item.kind]}</span>
+            <h3 className="text-lg font-bold text-gray-100 mt-2">{item.title}</h3>
+            <p className="text-xs text-gray-400">{summary(item)} · {new Date(item.updatedAt).toLocaleString()}</p>
+          </div>
+          <button
+            onClick={onToggleFavorite}
+            className={`p-2 rounded-full transition-colors ${item.favorite ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-300'}`}
+            aria-label={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            <StarIcon className="h-6 w-6" filled={item.favorite} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {item.tags.map(tag => (
+            <span key={tag} className="flex items-center px-2 py-0.5 text-xs bg-gray-600 text-gray-200 rounded-full">
+              #{tag}
+              <button onClick={() => onChangeTags(item.tags.filter(other => other !== tag))} className="ml-1 hover:text-red-300" aria-label={`Remove tag ${tag}`}>
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <form onSubmit={handleAddTags}>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Add tags (comma separated)"
+            className="w-full px-3 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </form>
+
+        <div className="flex items-center gap-2 pt-2 mt-auto">
+          <button
+            onClick={onOpen}
+            className="flex-grow flex items-center justify-center px-3 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white text-sm font-semibold transition-colors"
+          >
+            {openLabels[item.kind]}
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-2 bg-red-800 hover:bg-red-700 rounded-lg text-white transition-colors"
+            aria-label="Delete from library"
+          >
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,52 @@
-
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { editImage } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import {
+    createEditHistory, currentEditNode, findEditNode, addEdit, selectEdit, undoEdit, redoEdit,
+    canUndo, canRedo, editChain, flattenEditTree, createEditChainZip,
+} from '../services/editHistory';
 import { Spinner } from './Spinner';
-import { PhotoIcon, SparklesIcon, ArrowPathIcon, ArrowUpTrayIcon } from './Icons';
-import { fileToBase64 } from '../utils/fileUtils';
+import { MaskEditor } from './MaskEditor';
+import { AdjustmentsPanel } from './AdjustmentsPanel';
+import { PhotoIcon, SparklesIcon, ArrowPathIcon, ArrowUpTrayIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, EyeIcon } from './Icons';
+import { fileToBase64, downloadBlob, imageExtension, parseDataUrl } from '../utils/fileUtils';
+import { compositeThroughMask, maskToBlackAndWhite } from '../utils/imageMask';
+import { describeAdjustments } from '../utils/imageAdjustments';
+import type { EditHistory, EditNode, ImageAdjustments } from '../types';
+
+const nodeLabel = (node: EditNode) => node.prompt ?? 'Original';
 
-export const ImageEditor: React.FC = () => {
-    const [originalImage, setOriginalImage] = useState<string | null>(null);
-    const [editedImage, setEditedImage] = useState<string | null>(null);
+// What the right-hand panel shows in place of the current image.
+type EditorTool = 'mask' | 'adjust';
+
+interface ImageEditorProps {
+    /** Sends the current image to the Content Generator as the background for the quote. */
+    onUseImage?: (image: string) => Promise<void>;
+}
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ onUseImage }) => {
+    const [history, setHistory] = useState<EditHistory | null>(null);
+    // The left side of the comparison; the right side is always the current image.
+    const [compareId, setCompareId] = useState<string | null>(null);
     const [prompt, setPrompt] = useState<string>('');
+    const [tool, setTool] = useState<EditorTool | null>(null);
+    // Painted region and the image it was painted on; edits are limited to it while that image is current.
+    const [paintedMask, setPaintedMask] = useState<{ nodeId: string, mask: string } | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [isZipping, setIsZipping] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
 
+    // A mask belongs to the image it was painted on.
+    const mask = paintedMask && paintedMask.nodeId === history?.currentId ? paintedMask.mask : null;
+
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
             try {
                 const base64 = await fileToBase64(file);
-                setOriginalImage(base64);
-                setEditedImage(null);
+                const created = createEditHistory(base64);
+                setHistory(created);
+                setCompareId(created.currentId);
                 setError(null);
             } catch (err) {
                 setError("Failed to read the image file.");
@@ -26,34 +54,115 @@ export const ImageEditor: React.FC = () => {
             }
         }
     };
-    
+
     const handleSubmit = useCallback(async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!originalImage || !prompt) return;
+        if (!history || !prompt) return;
+        const source = currentEditNode(history);
 
         setIsLoading(true);
         setError(null);
-        setEditedImage(null);
 
         try {
-            const result = await editImage(originalImage, prompt);
-            setEditedImage(result);
+            let result: string;
+            if (mask) {
+                const edited = await editImage(source.image, prompt, await maskToBlackAndWhite(mask));
+                result = await compositeThroughMask(source.image, edited, mask);
+            } else {
+                result = await editImage(source.image, prompt);
+            }
+            setHistory(prev => prev && addEdit(prev, source.id, result, prompt, mask ? { mask } : {}));
+            setCompareId(source.id);
         } catch (err) {
-            setError("Failed to edit the image. Please try a different prompt or image.");
+            setError(describeError(err, "Failed to edit the image. Please try a different prompt or image."));
             console.error(err);
         } finally {
             setIsLoading(false);
         }
-    }, [originalImage, prompt]);
+    }, [history, prompt, mask]);
+
+    const handleMaskChange = (painted: string | null) => {
+        setPaintedMask(painted && history ? { nodeId: history.currentId, mask: painted } : null);
+    };
+
+    const handleApplyAdjustments = (image: string, adjustments: ImageAdjustments) => {
+        if (!history) return;
+        const source = currentEditNode(history);
+        setHistory(prev => prev && addEdit(prev, source.id, image, describeAdjustments(adjustments), { adjustments }));
+        setCompareId(source.id);
+        setTool(null);
+    };
+
+    const handleUndo = useCallback(() => setHistory(prev => prev && undoEdit(prev)), []);
+    const handleRedo = useCallback(() => setHistory(prev => prev && redoEdit(prev)), []);
+
+    useEffect(() => {
+        if (!history || isLoading) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            // Leave undo inside the prompt box to the browser.
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [history, isLoading, handleUndo, handleRedo]);
+
+    const handleExportChain = async () => {
+        if (!history) return;
+        setIsZipping(true);
+        setError(null);
+        try {
+            const chain = editChain(history, history.currentId);
+            downloadBlob(await createEditChainZip(chain), `edit_chain_${chain.length - 1}_steps.zip`);
+        } catch (err) {
+            setError("Failed to export the edit chain.");
+            console.error(err);
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const handleDownloadCurrent = async () => {
+        if (!history) return;
+        const { image } = currentEditNode(history);
+        try {
+            const blob = await (await fetch(image)).blob();
+            downloadBlob(blob, `edited_image.${imageExtension(parseDataUrl(image).mimeType)}`);
+        } catch (err) {
+            setError("Failed to download the image.");
+            console.error(err);
+        }
+    };
+
+    const handleUseImage = async () => {
+        if (!history || !onUseImage) return;
+        try {
+            await onUseImage(currentEditNode(history).image);
+        } catch (err) {
+            setError("Failed to send the image to the Content Generator.");
+            console.error(err);
+        }
+    };
 
     const handleReset = () => {
-        setOriginalImage(null);
-        setEditedImage(null);
+        setHistory(null);
+        setCompareId(null);
+        setTool(null);
         setPrompt('');
         setError(null);
     };
 
-    if (!originalImage) {
+    if (!history) {
         return (
             <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-600 rounded-lg">
                 <ArrowUpTrayIcon className="h-12 w-12 text-gray-500 mb-4" />
@@ -76,6 +185,11 @@ export const ImageEditor: React.FC = () => {
         );
     }
 
+    const current = currentEditNode(history);
+    const compared = (compareId && findEditNode(history, compareId)) || history.nodes[0];
+    const chainLength = editChain(history, current.id).length - 1;
+    const historyButtonClasses = "flex items-center px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-semibold text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
     return (
         <div className="space-y-8">
             <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row items-center gap-4">
@@ -92,7 +206,7 @@ export const ImageEditor: React.FC = () => {
                     disabled={isLoading || !prompt}
                     className="w-full sm:w-auto flex-shrink-0 flex items-center justify-center px-6 py-3 bg-teal-600 hover:bg-teal-500 rounded-lg text-white font-semibold transition-all duration-200 disabled:bg-teal-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500"
                 >
-                    {isLoading ? <Spinner /> : <><SparklesIcon className="h-5 w-5 mr-2" /> Apply Edit</>}
+                    {isLoading ? <Spinner /> : <><SparklesIcon className="h-5 w-5 mr-2" /> {mask ? 'Edit Region' : 'Apply Edit'}</>}
                 </button>
                  <button
                     type="button"
@@ -103,11 +217,86 @@ export const ImageEditor: React.FC = () => {
                 </button>
             </form>
 
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleUndo} disabled={isLoading || !canUndo(history)} className={historyButtonClasses} title="Undo (Ctrl+Z)">
+                    <ArrowUturnLeftIcon className="h-4 w-4 mr-2" /> Undo
+                </button>
+                <button onClick={handleRedo} disabled={isLoading || !canRedo(history)} className={historyButtonClasses} title="Redo (Ctrl+Shift+Z)">
+                    <ArrowUturnRightIcon className="h-4 w-4 mr-2" /> Redo
+                </button>
+                <button
+                    onClick={() => setTool(prev => prev === 'mask' ? null : 'mask')}
+                    disabled={isLoading}
+                    className={`${historyButtonClasses} ${tool === 'mask' ? 'ring-2 ring-indigo-500' : ''}`}
+                    title="Paint the area to change; everything outside it stays exactly as it is"
+                >
+                    {tool === 'mask' ? 'Done selecting' : 'Select region'}
+                </button>
+                <button
+                    onClick={() => setTool(prev => prev === 'adjust' ? null : 'adjust')}
+                    disabled={isLoading}
+                    className={`${historyButtonClasses} ${tool === 'adjust' ? 'ring-2 ring-indigo-500' : ''}`}
+                    title="Crop, rotate, resize, color and format changes made on this device, without the AI"
+                >
+                    {tool === 'adjust' ? 'Close adjustments' : 'Adjust'}
+                </button>
+                {mask && tool !== 'mask' && <span className="text-sm text-indigo-300">The next edit only changes the selected region.</span>}
+                {onUseImage && (
+                    <button onClick={handleUseImage} disabled={isLoading} className={`${historyButtonClasses} ml-auto`} title="Put the quote on this image in the Content Generator">
+                        <SparklesIcon className="h-4 w-4 mr-2" /> Use in Content Generator
+                    </button>
+                )}
+                <button onClick={handleDownloadCurrent} className={`${historyButtonClasses} ${onUseImage ? '' : 'ml-auto'}`}>
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" /> Download image
+                </button>
+                <button onClick={handleExportChain} disabled={isZipping} className={historyButtonClasses}>
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" /> {isZipping ? 'Zipping...' : `Export chain (${chainLength} edit${chainLength === 1 ? '' : 's'})`}
+                </button>
+            </div>
+
             {error && <p className="text-red-400 text-center">{error}</p>}
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <ImageDisplay title="Original" src={originalImage} />
-                <ImageDisplay title="Edited" src={editedImage} isLoading={isLoading} />
+                <ImageDisplay title={nodeLabel(compared)} src={compared.image} />
+                {tool === 'mask' && !isLoading ? (
+                    <MaskEditor key={current.id} title={`${nodeLabel(current)}: paint the region to edit`} image={current.image} initialMask={mask} onChange={handleMaskChange} />
+                ) : tool === 'adjust' && !isLoading ? (
+                    <AdjustmentsPanel key={current.id} title={`${nodeLabel(current)}: adjustments`} image={current.image} onApply={handleApplyAdjustments} />
+                ) : (
+                    <ImageDisplay title={nodeLabel(current)} src={current.image} isLoading={isLoading} />
+                )}
+            </div>
+
+            <div className="space-y-2">
+                <h3 className="text-lg font-semibold text-gray-300">History</h3>
+                <p className="text-sm text-gray-400">Select any image to continue editing from it; new edits start a branch. Compare puts it on the left.</p>
+                <ul className="space-y-1">
+                    {flattenEditTree(history).map(({ node, depth }) => (
+                        <li key={node.id} style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                            <div className={`flex items-center gap-3 p-2 rounded-lg ${node.id === current.id ? 'bg-indigo-900/50 ring-1 ring-indigo-500' : 'bg-gray-700/40'}`}>
+                                <button
+                                    onClick={() => setHistory(prev => prev && selectEdit(prev, node.id))}
+                                    disabled={isLoading}
+                                    className="flex items-center gap-3 flex-grow min-w-0 text-left disabled:cursor-not-allowed"
+                                    title="Continue editing from this image"
+                                >
+                                    <img src={node.image} alt={nodeLabel(node)} className="h-12 w-12 object-cover rounded-md flex-shrink-0" />
+                                    <span className={`text-sm truncate ${node.prompt ? 'text-gray-200' : 'text-gray-400 italic'}`}>{nodeLabel(node)}</span>
+                                    {node.mask && <span className="text-xs px-1.5 py-0.5 rounded bg-gray-600 text-gray-300 flex-shrink-0">Region</span>}
+                                    {node.adjustments && <span className="text-xs px-1.5 py-0.5 rounded bg-gray-600 text-gray-300 flex-shrink-0">Local</span>}
+                                </button>
+                                <button
+                                    onClick={() => setCompareId(node.id)}
+                                    className={`p-1.5 rounded-md transition-colors flex-shrink-0 ${node.id === compared.id ? 'bg-teal-600 text-white' : 'bg-gray-600 hover:bg-gray-500 text-gray-300 hover:text-white'}`}
+                                    aria-label={`Compare with ${nodeLabel(node)}`}
+                                    title="Compare"
+                                >
+                                    <EyeIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
             </div>
         </div>
     );
@@ -122,7 +311,7 @@ interface ImageDisplayProps {
 
 const ImageDisplay: React.FC<ImageDisplayProps> = ({ title, src, isLoading = false }) => (
     <div className="space-y-3">
-        <h3 className="text-lg font-semibold text-center text-gray-300">{title}</h3>
+        <h3 className="text-lg font-semibold text-center text-gray-300 truncate" title={title}>{title}</h3>
         <div className="aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center p-2 overflow-hidden">
             {isLoading ? (
                 <div className="text-center text-gray-400">
@@ -139,4 +328,4 @@ const ImageDisplay: React.FC<ImageDisplayProps> = ({ title, src, isLoading = fal
             )}
         </div>
     </div>
-);
\ No newline at end of file
+);
@@ -1,16 +1,27 @@
 
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, ArrowDownTrayIcon, ChatBubbleBottomCenterTextIcon } from './Icons';
+import { XMarkIcon, ArrowDownTrayIcon, ChatBubbleBottomCenterTextIcon, SparklesIcon } from './Icons';
+import { OverlayDesigner } from './OverlayDesigner';
+import type { BrandKit, OverlayLayout, TextOverlayStyle } from '../types';
 
 interface ImageModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrlWithOverlay: string;
   imageUrlWithoutOverlay: string;
+  /** Enables the overlay designer; `onDesignApplied` receives the re-rendered image and its layout. */
+  design?: {
+    quote: string;
+    style: TextOverlayStyle;
+    layout?: OverlayLayout;
+    brandKit?: BrandKit;
+    onDesignApplied: (withOverlay: string, layout: OverlayLayout) => void;
+  };
 }
 
-export const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUrlWithOverlay, imageUrlWithoutOverlay }) => {
+export const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUrlWithOverlay, imageUrlWithoutOverlay, design }) => {
   const [isOverlayVisible, setIsOverlayVisible] = useState(true);
+  const [isDesigning, setIsDesigning] = useState(false);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -24,6 +35,7 @@ export const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUr
       document.body.style.overflow = 'hidden';
     } else {
       document.body.style.overflow = 'auto';
+      setIsDesigning(false);
     }
 
     return () => {
@@ -44,16 +56,33 @@ export const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUr
       onClick={onClose}
     >
       <div 
-        className="bg-gray-800 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col border border-gray-700 transform transition-all duration-300"
+        className={`bg-gray-800 rounded-2xl shadow-2xl ${isDesigning ? 'max-w-6xl' : 'max-w-4xl'} w-full max-h-[90vh] flex flex-col border border-gray-700 transform transition-all duration-300`}
         onClick={(e) => e.stopPropagation()}
         style={{ animation: 'fade-in-scale 0.3s ease-out forwards' }}
       >
-        <div className="p-4 border-b border-gray-700 flex justify-end items-center">
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-200">{isDesigning ? 'Design Text Overlay' : ''}</h2>
           <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors" aria-label="Close image viewer">
             <XMarkIcon className="h-6 w-6" />
           </button>
         </div>
         
+        {isDesigning && design ? (
+          <OverlayDesigner
+            background={imageUrlWithoutOverlay}
+            quote={design.quote}
+            initialLayout={design.layout}
+            initialStyle={design.style}
+            brandKit={design.brandKit}
+            onApply={(withOverlay, layout) => {
+              design.onDesignApplied(withOverlay, layout);
+              setIsOverlayVisible(true);
+              setIsDesigning(false);
+            }}
+            onCancel={() => setIsDesigning(false)}
+          />
+        ) : (
+        <>
         <div className="flex-grow p-4 flex items-center justify-center overflow-hidden">
             <img src={currentImage} alt="Generated content" className="max-w-full max-h-full object-contain rounded-md" />
         </div>
@@ -74,7 +103,18 @@ export const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUr
                 <ArrowDownTrayIcon className="h-5 w-5" />
                 <span>Download Image</span>
             </a>
+            {design && (
+              <button
+                onClick={() => setIsDesigning(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 rounded-lg text-white font-semibold transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500"
+              >
+                <SparklesIcon className="h-5 w-5" />
+                <span>Edit Design</span>
+              </button>
+            )}
         </div>
+        </>
+        )}
       </div>
       <style>{`
         @keyframes fade-in-scale {
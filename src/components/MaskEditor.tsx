@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../utils/fileUtils';
+import { hasMaskedPixels } from '../utils/imageMask';
+
+interface MaskEditorProps {
+  title: string;
+  image: string;
+  /** A mask painted earlier on this image, shown again so it can be added to or erased. */
+  initialMask?: string | null;
+  /** Called after every stroke with the mask as an alpha PNG the size of the image, or null when nothing is painted. */
+  onChange: (mask: string | null) => void;
+}
+
+type MaskTool = 'brush' | 'erase' | 'lasso' | 'rectangle';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const toolLabels: Record<MaskTool, string> = {
+  brush: 'Brush',
+  erase: 'Erase',
+  lasso: 'Lasso',
+  rectangle: 'Rectangle',
+};
+
+// Painted regions only need opacity; the color is just what the user sees through the canvas's CSS opacity.
+const MASK_COLOR = '#ef4444';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ title, image, initialMask, onChange }) => {
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const pointsRef = useRef<Point[]>([]);
+  // Only the mask passed on mount is drawn; later values are this editor's own strokes coming back.
+  const initialMaskRef = useRef(initialMask);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  // Brush diameter as a fraction of the image's shorter side.
+  const [brushSize, setBrushSize] = useState<number>(0.06);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image)
+      .then(loaded => { if (!cancelled) setSize({ width: loaded.naturalWidth, height: loaded.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    const mask = initialMaskRef.current;
+    if (!size || !mask) return;
+    let cancelled = false;
+    loadImage(mask)
+      .then(loaded => { if (!cancelled) maskRef.current?.getContext('2d')?.drawImage(loaded, 0, 0, size.width, size.height); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [size]);
+
+  const maskContext = () => maskRef.current?.getContext('2d') ?? null;
+
+  const emitMask = () => {
+    const canvas = maskRef.current;
+    if (canvas) onChange(hasMaskedPixels(canvas) ? canvas.toDataURL('image/png') : null);
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * e.currentTarget.width / rect.width,
+      y: (e.clientY - rect.top) * e.currentTarget.height / rect.height,
+    };
+  };
+
+  const paintSegment = (from: Point, to: Point) => {
+    const ctx = maskContext();
+    if (!ctx || !size) return;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * Math.min(size.width, size.height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const tracePath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+    ctx.beginPath();
+    if (tool === 'rectangle') {
+      const [start, end] = [points[0], points[points.length - 1]];
+      ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+    }
+  };
+
+  const drawPreview = () => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (pointsRef.current.length < 2) return;
+    ctx.save();
+    ctx.lineWidth = Math.max(2, Math.min(canvas.width, canvas.height) / 300);
+    ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+    ctx.strokeStyle = '#ffffff';
+    tracePath(ctx, pointsRef.current);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    pointsRef.current = [point];
+    if (tool === 'brush' || tool === 'erase') paintSegment(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const points = pointsRef.current;
+    if (points.length === 0) return;
+    const point = toImagePoint(e);
+    if (tool === 'brush' || tool === 'erase') {
+      paintSegment(points[points.length - 1], point);
+      pointsRef.current = [...points, point];
+    } else {
+      pointsRef.current = tool === 'rectangle' ? [points[0], point] : [...points, point];
+      drawPreview();
+    }
+  };
+
+  const handlePointerUp = () => {
+    const points = pointsRef.current;
+    if (points.length === 0) return;
+    pointsRef.current = [];
+    const ctx = maskContext();
+    if (ctx && (tool === 'lasso' || tool === 'rectangle') && points.length >= (tool === 'lasso' ? 3 : 2)) {
+      ctx.fillStyle = MASK_COLOR;
+      tracePath(ctx, points);
+      ctx.fill();
+    }
+    drawPreview();
+    emitMask();
+  };
+
+  const handleInvert = () => {
+    const ctx = maskContext();
+    if (!ctx || !size) return;
+    ctx.save();
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.restore();
+    emitMask();
+  };
+
+  const handleClear = () => {
+    maskContext()?.clearRect(0, 0, size?.width ?? 0, size?.height ?? 0);
+    onChange(null);
+  };
+
+  const buttonClasses = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold text-center text-gray-300 truncate" title={title}>{title}</h3>
+      <div className="aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center p-2 overflow-hidden">
+        {size && (
+          <div
+            className="relative"
+            style={{ aspectRatio: `${size.width} / ${size.height}`, ...(size.width >= size.height ? { width: '100%' } : { height: '100%' }) }}
+          >
+            <img src={image} alt={title} className="absolute inset-0 w-full h-full rounded-md" />
+            <canvas ref={maskRef} width={size.width} height={size.height} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+            <canvas
+              ref={previewRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(toolLabels) as MaskTool[]).map(option => (
+          <button key={option} type="button" onClick={() => setTool(option)} className={buttonClasses(tool === option)}>
+            {toolLabels[option]}
+          </button>
+        ))}
+        <button type="button" onClick={handleInvert} className={buttonClasses(false)}>Invert</button>
+        <button type="button" onClick={handleClear} className={buttonClasses(false)}>Clear</button>
+      </div>
+      {(tool === 'brush' || tool === 'erase') && (
+        <label className="flex items-center gap-3 text-sm text-gray-300">
+          Brush size
+          <input type="range" min={0.01} max={0.25} step={0.01} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-grow accent-indigo-500" />
+        </label>
+      )}
+    </div>
+  );
+};
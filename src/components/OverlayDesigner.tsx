@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../utils/fileUtils';
+import { DEFAULT_TEXT_STYLE, drawOverlayLayout, layoutFromStyle, loadOverlayFont, renderOverlayLayout, withQuote } from '../utils/textOverlay';
+import { applyWatermark, drawWatermark, hasWatermark, loadWatermark } from '../utils/watermark';
+import { MAX_OVERLAY_BOXES, MAX_OVERLAY_TEXT_LENGTH, loadOverlayLayouts, saveOverlayLayouts } from '../services/overlayLayouts';
+import { brandPalette } from '../services/brandKit';
+import type { SavedOverlayLayout } from '../services/overlayLayouts';
+import type { BrandKit, OverlayLayout, OverlayTextBox, TextOverlayStyle } from '../types';
+import { TextOverlayControls } from './TextOverlayControls';
+import { Spinner } from './Spinner';
+import { TrashIcon } from './Icons';
+
+interface OverlayDesignerProps {
+  /** The clean image the design is drawn on. */
+  background: string;
+  quote: string;
+  /** The design to continue editing; without one, editing starts from the preset style. */
+  initialLayout?: OverlayLayout;
+  initialStyle: TextOverlayStyle;
+  /** Supplies the handle and font for new text lines and the watermark drawn over the design. */
+  brandKit?: BrandKit;
+  onApply: (withOverlay: string, layout: OverlayLayout) => void;
+  onCancel: () => void;
+}
+
+interface DragState {
+  boxId: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startBox: OverlayTextBox;
+  stage: DOMRect;
+}
+
+const MIN_BOX_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// A handle or call-to-action line under the quote, in the brand's body font when there is a kit.
+const secondaryBox = (kit?: BrandKit): OverlayTextBox => ({
+  id: crypto.randomUUID(),
+  role: 'secondary',
+  text: (kit?.enabled && kit.handle.trim()) || '@yourhandle',
+  x: 0.2,
+  y: 0.86,
+  width: 0.6,
+  height: 0.08,
+  style: { ...DEFAULT_TEXT_STYLE, fontFamily: kit?.enabled ? kit.fonts.body : 'Montserrat', fontWeight: 400, fontSize: 0.035 },
+});
+
+export const OverlayDesigner: React.FC<OverlayDesignerProps> = ({ background, quote, initialLayout, initialStyle, brandKit, onApply, onCancel }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  // The loaded watermark logo; undefined while loading or without a watermark.
+  const [watermarkLogo, setWatermarkLogo] = useState<HTMLImageElement | null | undefined>(undefined);
+  const [layout, setLayout] = useState<OverlayLayout | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [savedLayouts, setSavedLayouts] = useState<SavedOverlayLayout[]>(loadOverlayLayouts);
+  const [layoutName, setLayoutName] = useState<string>('');
+  const [isApplying, setIsApplying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImage(background), loadOverlayFont(initialStyle)])
+      .then(([loaded]) => {
+        if (cancelled) return;
+        const ctx = document.createElement('canvas').getContext('2d');
+        const start = initialLayout ?? (ctx ? layoutFromStyle(ctx, quote, initialStyle, loaded.naturalWidth, loaded.naturalHeight) : { boxes: [] });
+        setImage(loaded);
+        setLayout(start);
+        setSelectedId(start.boxes[0]?.id ?? null);
+      })
+      .catch(err => {
+        setError('Could not load the image for editing.');
+        console.error(err);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [background]);
+
+  useEffect(() => {
+    if (!hasWatermark(brandKit)) {
+      setWatermarkLogo(undefined);
+      return;
+    }
+    let cancelled = false;
+    loadWatermark(brandKit)
+      .then(logo => { if (!cancelled) setWatermarkLogo(logo); })
+      .catch(err => console.error('Could not load the brand watermark:', err));
+    return () => { cancelled = true; };
+  }, [brandKit]);
+
+  // Redraw on every change, and again once any newly chosen web font has loaded.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image || !layout) return;
+    const draw = () => {
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      ctx.drawImage(image, 0, 0);
+      drawOverlayLayout(ctx, canvas.width, canvas.height, layout);
+      if (hasWatermark(brandKit) && watermarkLogo !== undefined) drawWatermark(ctx, canvas.width, canvas.height, brandKit, watermarkLogo);
+    };
+    draw();
+    let cancelled = false;
+    Promise.all(layout.boxes.map(box => loadOverlayFont(box.style))).then(() => { if (!cancelled) draw(); });
+    return () => { cancelled = true; };
+  }, [image, layout, brandKit, watermarkLogo]);
+
+  const updateBox = (id: string, changes: Partial<OverlayTextBox>) =>
+    setLayout(prev => prev && { boxes: prev.boxes.map(box => box.id === id ? { ...box, ...changes } : box) });
+
+  const handlePointerDown = (e: React.PointerEvent, box: OverlayTextBox, mode: DragState['mode']) => {
+    const stage = canvasRef.current?.getBoundingClientRect();
+    if (!stage) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { boxId: box.id, mode, startX: e.clientX, startY: e.clientY, startBox: box, stage };
+    setSelectedId(box.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / drag.stage.width;
+    const dy = (e.clientY - drag.startY) / drag.stage.height;
+    const { startBox } = drag;
+    if (drag.mode === 'move') {
+      updateBox(drag.boxId, {
+        x: clamp(startBox.x + dx, 0, 1 - startBox.width),
+        y: clamp(startBox.y + dy, 0, 1 - startBox.height),
+      });
+    } else {
+      updateBox(drag.boxId, {
+        width: clamp(startBox.width + dx, MIN_BOX_SIZE, 1 - startBox.x),
+        height: clamp(startBox.height + dy, MIN_BOX_SIZE, 1 - startBox.y),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleAddLine = () => {
+    if (!canAddLine) return;
+    const box = secondaryBox(brandKit);
+    setLayout(prev => prev && { boxes: [...prev.boxes, box] });
+    setSelectedId(box.id);
+  };
+
+  const handleDeleteBox = (id: string) => {
+    setLayout(prev => prev && { boxes: prev.boxes.filter(box => box.id !== id) });
+    setSelectedId(null);
+  };
+
+  const handleSaveLayout = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!layout || !layoutName.trim()) return;
+    // The quote is replaced whenever a saved design is used, so a long one is only kept in part.
+    const stored = { boxes: layout.boxes.map(box => ({ ...box, text: box.text.slice(0, MAX_OVERLAY_TEXT_LENGTH) })) };
+    const updated = [...savedLayouts, { id: crypto.randomUUID(), name: layoutName.trim(), layout: stored }];
+    setSavedLayouts(updated);
+    saveOverlayLayouts(updated);
+    setLayoutName('');
+  };
+
+  const handleUseLayout = (saved: SavedOverlayLayout) => {
+    // Fresh ids, so editing the copy never touches the saved design.
+    const copy = withQuote({ boxes: saved.layout.boxes.map(box => ({ ...box, id: crypto.randomUUID() })) }, quote);
+    setLayout(copy);
+    setSelectedId(copy.boxes[0]?.id ?? null);
+  };
+
+  // Back to a single quote box placed by the preset style.
+  const handleReset = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !image) return;
+    const reset = layoutFromStyle(ctx, quote, initialStyle, image.naturalWidth, image.naturalHeight);
+    setLayout(reset);
+    setSelectedId(reset.boxes[0]?.id ?? null);
+  };
+
+  const handleDeleteLayout = (id: string) => {
+    const updated = savedLayouts.filter(saved => saved.id !== id);
+    setSavedLayouts(updated);
+    saveOverlayLayouts(updated);
+  };
+
+  const handleApply = async () => {
+    if (!layout) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyWatermark(await renderOverlayLayout(background, layout), brandKit), layout);
+    } catch (err) {
+      setError('Failed to render the design.');
+      console.error(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const selectedBox = layout?.boxes.find(box => box.id === selectedId) ?? null;
+  // Saved designs are limited in size, so the designer stays within what can be saved.
+  const canAddLine = !!layout && layout.boxes.length < MAX_OVERLAY_BOXES;
+  const buttonClasses = "px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-white transition-colors disabled:opacity-50";
+
+  if (!image || !layout) {
+    return (
+      <div className="flex-grow flex items-center justify-center p-8 text-gray-400">
+        {error ? <p className="text-red-400">{error}</p> : <Spinner size="large" />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow flex flex-col lg:flex-row gap-4 p-4 overflow-y-auto">
+      <div className="flex-grow flex items-start justify-center">
+        <div className="relative inline-block select-none" onPointerDown={() => setSelectedId(null)}>
+          <canvas ref={canvasRef} className="block max-w-full max-h-[60vh] rounded-md" />
+          {layout.boxes.map(box => (
+            <div
+              key={box.id}
+              onPointerDown={(e) => handlePointerDown(e, box, 'move')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className={`absolute cursor-move border-2 ${box.id === selectedId ? 'border-indigo-400' : 'border-dashed border-white/40 hover:border-white/80'}`}
+              style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%`, touchAction: 'none' }}
+              aria-label={`${box.role === 'quote' ? 'Quote' : 'Text line'} box`}
+            >
+              <div
+                onPointerDown={(e) => handlePointerDown(e, box, 'resize')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className="absolute -right-1.5 -bottom-1.5 h-3 w-3 bg-indigo-400 rounded-sm cursor-se-resize"
+                aria-label="Resize"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:w-80 flex-shrink-0 space-y-4">
+        <div className="flex gap-2">
+          <button
+            onClick={handleAddLine}
+            disabled={!canAddLine}
+            title={canAddLine ? undefined : `A design can hold up to ${MAX_OVERLAY_BOXES} text boxes.`}
+            className={buttonClasses}
+          >
+            Add text line
+          </button>
+          <button onClick={handleReset} className={buttonClasses}>Reset</button>
+        </div>
+
+        {selectedBox ? (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-semibold text-gray-300">{selectedBox.role === 'quote' ? 'Quote' : 'Text line'}</p>
+              <button onClick={() => handleDeleteBox(selectedBox.id)} className="p-1.5 bg-red-800 hover:bg-red-700 rounded-md text-white" aria-label="Delete text box">
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <textarea
+              value={selectedBox.text}
+              onChange={(e) => updateBox(selectedBox.id, { text: e.target.value })}
+              rows={3}
+              maxLength={MAX_OVERLAY_TEXT_LENGTH}
+              className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+            />
+            <TextOverlayControls
+              style={selectedBox.style}
+              defaultStyle={DEFAULT_TEXT_STYLE}
+              swatches={brandPalette(brandKit)}
+              onChange={(style) => updateBox(selectedBox.id, { style })}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">Select a text box to edit it. Drag boxes to move them and use the corner handle to resize.</p>
+        )}
+
+        <div className="space-y-2 border-t border-gray-700 pt-4">
+          <p className="text-sm font-semibold text-gray-300">Saved layouts</p>
+          {savedLayouts.length === 0 && <p className="text-xs text-gray-500">Save this design to apply it to other images.</p>}
+          {savedLayouts.map(saved => (
+            <div key={saved.id} className="flex items-center gap-2">
+              <button onClick={() => handleUseLayout(saved)} className="flex-grow text-left px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 truncate">
+                {saved.name}
+              </button>
+              <button onClick={() => handleDeleteLayout(saved.id)} className="p-1.5 text-gray-400 hover:text-red-300" aria-label={`Delete layout ${saved.name}`}>
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <form onSubmit={handleSaveLayout} className="flex gap-2">
+            <input
+              type="text"
+              value={layoutName}
+              onChange={(e) => setLayoutName(e.target.value)}
+              placeholder="Layout name"
+              maxLength={100}
+              className="flex-grow min-w-0 px-3 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button type="submit" disabled={!layoutName.trim()} className={buttonClasses}>Save</button>
+          </form>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex gap-2 border-t border-gray-700 pt-4">
+          <button onClick={onCancel} className={`${buttonClasses} flex-grow`}>Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="flex-grow flex items-center justify-center px-3 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm font-semibold text-white transition-colors disabled:opacity-50"
+          >
+            {isApplying ? <Spinner size="small" /> : 'Apply design'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { generateQuoteBackground } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import { PLATFORM_PRESETS, createPlatformZip } from '../services/platformExport';
+import { downloadBlob } from '../utils/fileUtils';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon } from './Icons';
+import type { AspectRatio, BrandKit, BrandProfile, PostCopy, TextOverlayStyle } from '../types';
+
+interface PlatformExportPanelProps {
+  quote: string;
+  /** The clean image every size is cropped from, unless each ratio gets its own background. */
+  background: string;
+  style: TextOverlayStyle;
+  profile: BrandProfile;
+  brandKit?: BrandKit;
+  postCopy?: PostCopy;
+}
+
+type BackgroundSource = 'crop' | 'regenerate';
+
+export const PlatformExportPanel: React.FC<PlatformExportPanelProps> = ({ quote, background, style, profile, brandKit, postCopy }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(PLATFORM_PRESETS.map(preset => preset.id)));
+  const [source, setSource] = useState<BackgroundSource>('crop');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedPresets = PLATFORM_PRESETS.filter(preset => selectedIds.has(preset.id));
+  const ratiosToGenerate = [...new Set(selectedPresets.map(preset => preset.aspectRatio))];
+
+  const togglePreset = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleExport = async () => {
+    if (selectedPresets.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const backgrounds = new Map<AspectRatio, string>();
+      if (source === 'regenerate') {
+        for (const [index, ratio] of ratiosToGenerate.entries()) {
+          setStatus(`Generating ${ratio} background (${index + 1} of ${ratiosToGenerate.length})...`);
+          backgrounds.set(ratio, await generateQuoteBackground(quote, ratio, profile, brandKit));
+        }
+      }
+      const zip = await createPlatformZip({
+        quote,
+        presets: selectedPresets,
+        backgroundFor: preset => backgrounds.get(preset.aspectRatio) ?? background,
+        style,
+        brandKit,
+        postCopy,
+        onProgress: (done, total) => setStatus(`Rendering ${done} of ${total} sizes...`),
+      });
+      downloadBlob(zip, `${quote.slice(0, 40).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'quote'}_all_platforms.zip`);
+    } catch (err) {
+      setError(describeError(err, 'Failed to export the platform sizes. Please try again.'));
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+      setStatus('');
+    }
+  };
+
+  return (
+    <div className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-200">Every platform size</h3>
+        <p className="text-sm text-gray-400">
+          Export this quote at each platform's exact size. The text is laid out again for every size and kept clear of each app's buttons and captions.
+        </p>
+      </div>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {PLATFORM_PRESETS.map(preset => (
+          <li key={preset.id}>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(preset.id)}
+                onChange={() => togglePreset(preset.id)}
+                disabled={isExporting}
+                className="h-4 w-4 accent-indigo-500"
+              />
+              <span>{preset.platform} {preset.name}</span>
+              <span className="text-xs text-gray-500">{preset.width}×{preset.height}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="space-y-1 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="radio" name="platform-background" checked={source === 'crop'} onChange={() => setSource('crop')} disabled={isExporting} className="accent-indigo-500" />
+          Crop this image to each size (no extra generations)
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" name="platform-background" checked={source === 'regenerate'} onChange={() => setSource('regenerate')} disabled={isExporting} className="accent-indigo-500" />
+          Generate a new background per aspect ratio ({ratiosToGenerate.length} image{ratiosToGenerate.length === 1 ? '' : 's'})
+        </label>
+      </div>
+      <button
+        onClick={handleExport}
+        disabled={isExporting || selectedPresets.length === 0}
+        className="w-full flex items-center justify-center px-4 py-2 bg-teal-600 hover:bg-teal-500 rounded-lg text-white font-semibold transition-colors duration-200 disabled:bg-teal-400 disabled:cursor-not-allowed"
+      >
+        {isExporting ? <Spinner size="small" /> : <><ArrowDownTrayIcon className="h-5 w-5 mr-2" /> Download {selectedPresets.length} sizes (.zip)</>}
+      </button>
+      {status && <p className="text-sm text-gray-400 text-center">{status}</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+};
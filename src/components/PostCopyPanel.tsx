@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { generatePostCopy } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import { EMOJI_DENSITIES, PLATFORM_COPY_LIMITS, SOCIAL_PLATFORMS } from '../services/apiActions';
+import { composePost, formatPostCopy } from '../services/postCopy';
+import { downscaleImage } from '../utils/fileUtils';
+import { Spinner } from './Spinner';
+import { ChatBubbleBottomCenterTextIcon, ClipboardIcon, CheckIcon } from './Icons';
+import type { BrandProfile, EmojiDensity, PostCopy, SocialPlatform } from '../types';
+
+interface PostCopyPanelProps {
+  /** The quote or tip on the image. */
+  text: string;
+  /** The finished image, sent along so the alt text describes it. */
+  image: string;
+  profile: BrandProfile;
+  postCopy?: PostCopy;
+  onChange: (copy: PostCopy) => void;
+}
+
+// Plenty for describing the image, and keeps the request well under the proxy's body limit.
+const ALT_TEXT_IMAGE_SIZE = 768;
+
+const emojiLabels: Record<EmojiDensity, string> = {
+  none: 'No emojis',
+  light: 'Light',
+  heavy: 'Heavy',
+};
+
+export const PostCopyPanel: React.FC<PostCopyPanelProps> = ({ text, image, profile, postCopy, onChange }) => {
+  const [platform, setPlatform] = useState<SocialPlatform>(postCopy?.platform ?? 'instagram');
+  const [emojiDensity, setEmojiDensity] = useState<EmojiDensity>(postCopy?.emojiDensity ?? 'light');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onChange(await generatePostCopy(text, platform, emojiDensity, await downscaleImage(image, ALT_TEXT_IMAGE_SIZE), profile));
+    } catch (err) {
+      setError(describeError(err, 'Failed to write the post copy. Please try again.'));
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = (key: string, value: string) => {
+    navigator.clipboard.writeText(value);
+    setCopiedKey(key);
+    setTimeout(() => setCopiedKey(current => current === key ? null : current), 2000);
+  };
+
+  const copyButton = (copyKey: string, value: string, label: string) => (
+    <button
+      onClick={() => handleCopy(copyKey, value)}
+      className="p-1.5 bg-gray-600 hover:bg-gray-500 rounded-md text-gray-300 hover:text-white transition-colors flex-shrink-0"
+      aria-label={label}
+      title={label}
+    >
+      {copiedKey === copyKey ? <CheckIcon className="h-4 w-4 text-green-400" /> : <ClipboardIcon className="h-4 w-4" />}
+    </button>
+  );
+
+  const selectClasses = "px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-gray-200">Post copy</h3>
+        <p className="text-sm text-gray-400">Captions, hashtags, a call to action and alt text for this image.</p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <select value={platform} onChange={(e) => setPlatform(e.target.value as SocialPlatform)} aria-label="Platform" className={selectClasses}>
+          {SOCIAL_PLATFORMS.map(option => <option key={option} value={option}>{PLATFORM_COPY_LIMITS[option].name}</option>)}
+        </select>
+        <select value={emojiDensity} onChange={(e) => setEmojiDensity(e.target.value as EmojiDensity)} aria-label="Emoji density" className={selectClasses}>
+          {EMOJI_DENSITIES.map(option => <option key={option} value={option}>{emojiLabels[option]}</option>)}
+        </select>
+        <button
+          onClick={handleGenerate}
+          disabled={isLoading || !text}
+          className="flex-grow flex items-center justify-center px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-colors duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Spinner size="small" /> : <><ChatBubbleBottomCenterTextIcon className="h-5 w-5 mr-2" /> {postCopy ? 'Rewrite copy' : 'Write copy'}</>}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {PLATFORM_COPY_LIMITS[platform].name}: posts up to {PLATFORM_COPY_LIMITS[platform].maxCaptionLength} characters including the call to action and hashtags, at most {PLATFORM_COPY_LIMITS[platform].maxHashtags} hashtags.
+      </p>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {postCopy && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="text-sm font-semibold text-gray-300">For {PLATFORM_COPY_LIMITS[postCopy.platform].name}</p>
+            {copyButton('all', formatPostCopy(postCopy), 'Copy everything')}
+          </div>
+          {postCopy.captions.map((caption, index) => (
+            <div key={index} className="flex items-start gap-2 bg-gray-700/50 p-3 rounded-lg">
+              <p className="flex-grow text-sm text-gray-200 whitespace-pre-line">{caption}</p>
+              {copyButton(`caption-${index}`, composePost(postCopy, index), `Copy caption ${index + 1} with CTA and hashtags`)}
+            </div>
+          ))}
+          <div className="flex items-start gap-2">
+            <div className="flex-grow">
+              <h4 className="text-xs font-semibold text-indigo-400">Call to action</h4>
+              <p className="text-sm text-gray-300">{postCopy.cta}</p>
+            </div>
+            {copyButton('cta', postCopy.cta, 'Copy call to action')}
+          </div>
+          <div className="flex items-start gap-2">
+            <div className="flex-grow">
+              <h4 className="text-xs font-semibold text-indigo-400">Hashtags ({postCopy.hashtags.length})</h4>
+              <p className="text-sm text-gray-300">{postCopy.hashtags.join(' ')}</p>
+            </div>
+            {copyButton('hashtags', postCopy.hashtags.join(' '), 'Copy hashtags')}
+          </div>
+          <div className="flex items-start gap-2">
+            <div className="flex-grow">
+              <h4 className="text-xs font-semibold text-indigo-400">Alt text</h4>
+              <p className="text-sm text-gray-300">{postCopy.altText}</p>
+            </div>
+            {copyButton('alt', postCopy.altText, 'Copy alt text')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
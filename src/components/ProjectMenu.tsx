@@ -0,0 +1,90 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createProject, exportProjectJson, exportProjectZip, importProject, projectFileName, ProjectFileError } from '../services/projectFile';
+import type { Project, ProjectSnapshot } from '../services/projectFile';
+import { downloadBlob } from '../utils/fileUtils';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from './Icons';
+
+interface ProjectMenuProps {
+  /** The current content package, read at export time. */
+  getSnapshot: () => ProjectSnapshot;
+  onImport: (project: Project) => void | Promise<void>;
+}
+
+export const ProjectMenu: React.FC<ProjectMenuProps> = ({ getSnapshot, onImport }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setIsBusy(true); setError(null);
+    try {
+      const project = createProject(getSnapshot());
+      const blob = format === 'zip' ? await exportProjectZip(project) : exportProjectJson(project);
+      downloadBlob(blob, projectFileName(project, format));
+      setIsOpen(false);
+    } catch (err) {
+      setError('Failed to export the project.');
+      console.error(err);
+    } finally { setIsBusy(false); }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true); setError(null);
+    try {
+      await onImport(await importProject(file));
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof ProjectFileError ? err.message : 'Failed to import the project.');
+      console.error(err);
+    } finally { setIsBusy(false); }
+  };
+
+  const itemClasses = "flex items-center w-full text-left px-3 py-2 text-sm rounded-md text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-semibold text-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        {isBusy ? <Spinner size="small" /> : 'Project'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-700 rounded-md shadow-lg z-30 border border-gray-600 p-2">
+          <p className="px-3 py-1 text-xs text-gray-400">Quote, images, post copy, video prompts and storyboard in one file.</p>
+          <button onClick={() => handleExport('json')} disabled={isBusy} className={itemClasses}>
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" /> Export project (.json)
+          </button>
+          <button onClick={() => handleExport('zip')} disabled={isBusy} className={itemClasses}>
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" /> Export project with image files (.zip)
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,.zip,application/json,application/zip" className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={itemClasses}>
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" /> Import project...
+          </button>
+          {error && <p className="px-3 py-2 text-sm text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { useState, useEffect } from 'react';
+import { onActionServed } from '../services/geminiService';
+import type { ServedBy } from '../services/geminiService';
+
+// Shows the model that answered the latest request, which differs from the first choice when the
+// retry layer fell back to another model.
+export const ServedByBadge: React.FC = () => {
+  const [served, setServed] = useState<ServedBy | null>(null);
+
+  useEffect(() => onActionServed(setServed), []);
+
+  if (!served) return null;
+  const models = served.modelsUsed.join(', ');
+  return (
+    <span
+      className="hidden sm:inline-block px-2 py-1 text-xs text-gray-400 bg-gray-700/60 rounded-md truncate max-w-[16rem]"
+      title={`"${served.action}" was answered by ${models}${served.provider ? ` (${served.provider} provider)` : ''}`}
+    >
+      {served.provider === 'mock' ? `${models} (mock)` : models}
+    </span>
+  );
+};
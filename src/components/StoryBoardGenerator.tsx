@@ -1,32 +1,104 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateStoryElements, generateImageForScene, savePackageToDrive } from '../services/geminiService';
-import type { SceneCard, ThumbnailData } from '../types';
+import {
+  generateStoryElements, generateImageForScene, savePackageToDrive, rewriteScene, splitScene, bridgeScenes, extendStory,
+} from '../services/geminiService';
+import { ApiError, describeError } from '../services/apiErrors';
+import { MAX_EXTEND_SCENES, MAX_STORY_SCENES } from '../services/apiActions';
+import type { StoryboardContext } from '../services/apiActions';
+import { autoSaveLibraryItem } from '../services/contentLibrary';
+import { DEFAULT_JOB_RETRY_OPTIONS, createJobQueue } from '../services/jobQueue';
+import type { Job, JobQueue, JobState, JobStatus } from '../services/jobQueue';
+import type { AspectRatio, BrandKit, BrandProfile, SceneCard, StoryboardLibraryItem, ThumbnailData } from '../types';
 import { Spinner } from './Spinner';
-import { FilmIcon, UserCircleIcon, ArrowUpTrayIcon, PhotoIcon, XMarkIcon, ArrowPathIcon, ArrowDownTrayIcon } from './Icons';
-import { fileToBase64, blobToBase64 } from '../utils/fileUtils';
+import {
+  FilmIcon, UserCircleIcon, ArrowUpTrayIcon, PhotoIcon, XMarkIcon, ArrowPathIcon, ArrowDownTrayIcon, PencilIcon, TrashIcon,
+  PlusIcon, DocumentDuplicateIcon, Bars3Icon, ArrowUturnLeftIcon, SparklesIcon,
+} from './Icons';
+import { fileToBase64, blobToBase64, downloadBlob } from '../utils/fileUtils';
+import { applyWatermark } from '../utils/watermark';
 import JSZip from 'jszip';
 
 type CharacterGender = 'male' | 'female';
 
 const toneSuggestions = ['Cinematic', 'Humorous', 'Inspirational', 'Educational', 'Dramatic', 'Upbeat', 'Realistic'];
-const aspectRatios = ["16:9", "1:1", "9:16", "4:3", "3:4"];
+const aspectRatios: AspectRatio[] = ["16:9", "1:1", "9:16", "4:3", "3:4"];
+
+// Image calls are slow and rate limited; a few at a time keeps "Render all" fast without tripping the limits.
+const renderConcurrencyOptions = [1, 2, 3, 4];
+const DEFAULT_RENDER_CONCURRENCY = 2;
 
 const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID;
 const GOOGLE_REDIRECT_URI = import.meta.env.VITE_GOOGLE_REDIRECT_URI;
 const GOOGLE_DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive.file';
+const GOOGLE_DRIVE_FOLDER_NAME = import.meta.env.VITE_GOOGLE_DRIVE_FOLDER_NAME || 'Motivational Content Automator';
+
+// In-flight flags describe this session only, so they are never written to the library.
+const withoutProgress = <T extends { isGeneratingImage?: boolean }>({ isGeneratingImage, ...rest }: T) => rest;
+
+// Scene numbers change as scenes are moved, so each scene also gets a key for this session that
+// in-flight image generations and React can hold on to.
+type StoryScene = SceneCard & { id: string };
+
+const withSceneId = (scene: SceneCard): StoryScene => ({ ...scene, id: crypto.randomUUID() });
+
+type StoryboardData = StoryboardLibraryItem['data'];
+
+// The storyboard as the library stores it, without the session ids and in-flight flags.
+const toStoryboardData = ({ thumbnail, scenes, ...fields }: Omit<StoryboardData, 'scenes'> & { scenes: StoryScene[] }): StoryboardData => ({
+  ...fields,
+  thumbnail: thumbnail && withoutProgress(thumbnail),
+  scenes: scenes.map(({ id, ...scene }) => withoutProgress(scene)),
+});
+
+const renumberScenes = (scenes: StoryScene[]) => scenes.map((scene, index) => ({ ...scene, sceneNumber: index + 1 }));
+
+const MAX_SCENE_UNDO = 30;
+
+// An image with the prompt it was rendered from, so it can be dropped if that prompt was edited meanwhile.
+interface RenderedImage {
+  imageUrl: string;
+  prompt: string;
+}
+
+// Missing, not already being generated by hand, and with a prompt to generate from.
+const needsImage = (item: { visuals: string, imageUrl?: string | null, isGeneratingImage?: boolean }) =>
+  !item.imageUrl && !item.isGeneratingImage && !!item.visuals.trim();
+
+interface StoryBoardGeneratorProps {
+  profile?: BrandProfile;
+  /** Styles image prompts and watermarks the thumbnail and exported scene images. */
+  brandKit?: BrandKit;
+  /** Last saved storyboard, restored when the tab is shown again or reopened from the library. */
+  savedItem?: StoryboardLibraryItem | null;
+  onSaved?: (item: StoryboardLibraryItem | null) => void;
+}
+
+export const StoryBoardGenerator: React.FC<StoryBoardGeneratorProps> = ({ profile, brandKit, savedItem, onSaved }) => {
+  const saved = savedItem?.data;
 
-export const StoryBoardGenerator: React.FC = () => {
   // Form State
-  const [topic, setTopic] = useState<string>('');
-  const [sceneCount, setSceneCount] = useState<string>('7');
-  const [tone, setTone] = useState<string>('');
-  const [characterGender, setCharacterGender] = useState<CharacterGender>('female');
-  const [characterImage, setCharacterImage] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<string>(aspectRatios[0]);
+  const [topic, setTopic] = useState<string>(saved?.topic ?? '');
+  const [sceneCount, setSceneCount] = useState<string>(saved ? String(saved.scenes.length) : '7');
+  const [tone, setTone] = useState<string>(saved?.tone ?? '');
+  const [characterGender, setCharacterGender] = useState<CharacterGender>(saved?.characterGender ?? 'female');
+  const [characterImage, setCharacterImage] = useState<string | null>(saved?.characterImage ?? null);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(saved?.aspectRatio ?? aspectRatios[0]);
 
   // Generation State
-  const [scenes, setScenes] = useState<SceneCard[]>([]);
-  const [thumbnail, setThumbnail] = useState<ThumbnailData | null>(null);
+  const [scenes, setScenes] = useState<StoryScene[]>(() => saved?.scenes.map(withSceneId) ?? []);
+  // Scene lists from before each edit, newest last, for Undo.
+  const [sceneUndo, setSceneUndo] = useState<StoryScene[][]>([]);
+  const [deletedNotice, setDeletedNotice] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropId, setDropId] = useState<string | null>(null);
+  // AI scene operations: the scene whose panel is open, and the operation waiting on the model, if any.
+  const [aiSceneId, setAiSceneId] = useState<string | null>(null);
+  const [sceneInstruction, setSceneInstruction] = useState<string>('');
+  const [sceneTask, setSceneTask] = useState<string | null>(null);
+  const [extendCount, setExtendCount] = useState<number>(2);
+  const [extendInstruction, setExtendInstruction] = useState<string>('');
+  const [thumbnail, setThumbnail] = useState<ThumbnailData | null>(saved?.thumbnail ?? null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isZipping, setIsZipping] = useState<boolean>(false);
   const [isSavingToDrive, setIsSavingToDrive] = useState<boolean>(false);
@@ -34,8 +106,51 @@ export const StoryBoardGenerator: React.FC = () => {
   const [generationStatus, setGenerationStatus] = useState<string>('');
   const [googleAccessToken, setGoogleAccessToken] = useState<string | null>(null);
 
+  // "Render all" queue: live job states while it runs, then the final states for the summary.
+  const [renderJobs, setRenderJobs] = useState<JobState[]>([]);
+  const [renderSummary, setRenderSummary] = useState<JobState[] | null>(null);
+  const [renderConcurrency, setRenderConcurrency] = useState<number>(DEFAULT_RENDER_CONCURRENCY);
+  const [isRenderPaused, setIsRenderPaused] = useState<boolean>(false);
+  const renderQueueRef = useRef<JobQueue | null>(null);
+
+  // Library entry for the current storyboard; created when a story is generated, updated as images arrive.
+  const [libraryId, setLibraryId] = useState<string | null>(savedItem?.id ?? null);
+  const needsSaveRef = useRef<boolean>(false);
+  // The latest scenes and thumbnail, for changes that are applied after awaiting the model.
+  const scenesRef = useRef<StoryScene[]>(scenes);
+  const thumbnailRef = useRef<ThumbnailData | null>(thumbnail);
+  // The other saved fields, and whether the tab is still shown, for images that arrive after it was closed.
+  const fieldsRef = useRef({ libraryId, topic, tone, characterGender, characterImage, aspectRatio });
+  const isMountedRef = useRef<boolean>(true);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    if (!needsSaveRef.current || !libraryId) return;
+    needsSaveRef.current = false;
+    autoSaveLibraryItem({
+      id: libraryId,
+      kind: 'storyboard',
+      data: toStoryboardData({ topic, tone, characterGender, characterImage, aspectRatio, thumbnail, scenes }),
+    }).then(item => { if (item) onSaved?.(item); });
+  }, [libraryId, scenes, thumbnail, topic, tone, characterGender, characterImage, aspectRatio, onSaved]);
+
+  useEffect(() => { scenesRef.current = scenes; }, [scenes]);
+  useEffect(() => { thumbnailRef.current = thumbnail; }, [thumbnail]);
+  useEffect(() => {
+    fieldsRef.current = { libraryId, topic, tone, characterGender, characterImage, aspectRatio };
+  }, [libraryId, topic, tone, characterGender, characterImage, aspectRatio]);
+
+  // Only the active tab is mounted, so switching tabs ends the render queue; images already
+  // rendering still arrive and are saved by storeImage.
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      renderQueueRef.current?.cancel();
+    };
+  }, []);
+
   useEffect(() => {
     const params = new URLSearchParams(window.location.hash.substring(1));
     const token = params.get('access_token');
@@ -69,44 +184,289 @@ export const StoryBoardGenerator: React.FC = () => {
 
   const handleGenerate = useCallback(async () => {
     if (!topic) { setError('Please enter a topic or story idea.'); return; }
-    setIsLoading(true); setScenes([]); setThumbnail(null); setError(null);
+    setIsLoading(true); setScenes([]); setThumbnail(null); setError(null); setLibraryId(null);
+    setSceneUndo([]); setDeletedNotice(null); setEditingId(null); setAiSceneId(null);
     setGenerationStatus('Crafting your story outline...');
     try {
       const numScenes = parseInt(sceneCount, 10) || 7;
-      const { thumbnailPrompt, scenes: fetchedScenes } = await generateStoryElements(topic, numScenes, tone, characterGender, !!characterImage);
+      const { thumbnailPrompt, scenes: fetchedScenes } = await generateStoryElements(topic, numScenes, tone, characterGender, !!characterImage, profile);
       setThumbnail({ prompt: thumbnailPrompt });
       for (let i = 0; i < fetchedScenes.length; i++) {
         await new Promise(resolve => setTimeout(resolve, 200));
         setGenerationStatus(`Revealing Scene ${i + 1} of ${numScenes}...`);
-        setScenes(prev => [...prev, { ...fetchedScenes[i], sceneNumber: i + 1 }]);
+        setScenes(prev => [...prev, withSceneId({ ...fetchedScenes[i], sceneNumber: i + 1 })]);
       }
-    } catch (err: any) {
-      setError(err.message || 'Failed to generate story. Please try again.');
+      needsSaveRef.current = true;
+      setLibraryId(crypto.randomUUID());
+    } catch (err) {
+      setError(describeError(err, 'Failed to generate story. Please try again.'));
       console.error(err);
     } finally {
       setIsLoading(false); setGenerationStatus('');
     }
-  }, [topic, sceneCount, tone, characterGender, characterImage]);
+  }, [topic, sceneCount, tone, characterGender, characterImage, profile]);
+
+  const renderImage = useCallback(async (type: 'thumbnail' | 'scene', prompt: string): Promise<RenderedImage> => {
+    const sceneImage = await generateImageForScene(prompt, aspectRatio, characterImage, brandKit);
+    // The thumbnail is a finished asset, so it is branded straight away; scenes are branded on export.
+    return { imageUrl: type === 'thumbnail' ? await applyWatermark(sceneImage, brandKit) : sceneImage, prompt };
+  }, [aspectRatio, characterImage, brandKit]);
 
-  const handleGenerateImage = useCallback(async (type: 'thumbnail' | 'scene', prompt: string, sceneNumber?: number) => {
+  // An image whose prompt or visuals were edited while it rendered no longer shows them, so it is dropped.
+  // Once the tab has been closed the image goes straight into the storyboard's library entry instead.
+  const storeImage = useCallback((type: 'thumbnail' | 'scene', { imageUrl, prompt }: RenderedImage, sceneId?: string) => {
+    const withImage = <T extends ThumbnailData | StoryScene>(item: T, renderedFrom: string): T =>
+      renderedFrom === prompt ? { ...item, imageUrl, isGeneratingImage: false } : { ...item, isGeneratingImage: false };
+    const nextThumbnail = (prev: ThumbnailData | null) => prev && withImage(prev, prev.prompt);
+    const nextScenes = (prev: StoryScene[]) => prev.map(s => s.id === sceneId ? withImage(s, s.visuals) : s);
+
+    if (isMountedRef.current) {
+      needsSaveRef.current = true;
+      if (type === 'thumbnail') setThumbnail(nextThumbnail); else setScenes(nextScenes);
+      return;
+    }
+    if (type === 'thumbnail') thumbnailRef.current = nextThumbnail(thumbnailRef.current);
+    else scenesRef.current = nextScenes(scenesRef.current);
+    const { libraryId: id, ...fields } = fieldsRef.current;
+    if (!id) return;
+    autoSaveLibraryItem({
+      id,
+      kind: 'storyboard',
+      data: toStoryboardData({ ...fields, thumbnail: thumbnailRef.current, scenes: scenesRef.current }),
+    }).then(item => { if (item) onSaved?.(item); });
+  }, [onSaved]);
+
+  const handleGenerateImage = useCallback(async (type: 'thumbnail' | 'scene', prompt: string, scene?: StoryScene) => {
     if (type === 'thumbnail') setThumbnail(prev => prev ? { ...prev, isGeneratingImage: true } : null);
-    else if (sceneNumber) setScenes(prev => prev.map(s => s.sceneNumber === sceneNumber ? { ...s, isGeneratingImage: true } : s));
+    else if (scene) setScenes(prev => prev.map(s => s.id === scene.id ? { ...s, isGeneratingImage: true } : s));
     try {
-      const imageUrl = await generateImageForScene(prompt, aspectRatio, characterImage);
-      if (type === 'thumbnail') setThumbnail(prev => prev ? { ...prev, imageUrl, isGeneratingImage: false } : null);
-      else if (sceneNumber) setScenes(prev => prev.map(s => s.sceneNumber === sceneNumber ? { ...s, imageUrl, isGeneratingImage: false } : s));
+      storeImage(type, await renderImage(type, prompt), scene?.id);
     } catch (err) {
-      setError(`Failed to generate image for ${type} ${sceneNumber || ''}.`);
+      setError(describeError(err, `Failed to generate image for ${type} ${scene?.sceneNumber || ''}.`));
       console.error(err);
       if (type === 'thumbnail') setThumbnail(prev => prev ? { ...prev, isGeneratingImage: false } : null);
-      else if (sceneNumber) setScenes(prev => prev.map(s => s.sceneNumber === sceneNumber ? { ...s, isGeneratingImage: false } : s));
+      else if (scene) setScenes(prev => prev.map(s => s.id === scene.id ? { ...s, isGeneratingImage: false } : s));
     }
-  }, [aspectRatio, characterImage]);
+  }, [renderImage, storeImage]);
+
+  // Every change to the scene list goes through here, so it can be undone and is saved.
+  const changeScenes = (next: StoryScene[]) => {
+    const previous = scenesRef.current;
+    setSceneUndo(prev => [...prev.slice(-(MAX_SCENE_UNDO - 1)), previous]);
+    setScenes(renumberScenes(next));
+    setDeletedNotice(null);
+    needsSaveRef.current = true;
+  };
+
+  // Images that arrived after the edit being undone are kept.
+  const handleUndoScenes = () => {
+    const previous = sceneUndo[sceneUndo.length - 1];
+    if (!previous) return;
+    const images = new Map(scenes.map(scene => [scene.id, scene]));
+    setSceneUndo(sceneUndo.slice(0, -1));
+    setScenes(previous.map(scene => {
+      const current = images.get(scene.id);
+      return current && !scene.imageUrl ? { ...scene, imageUrl: current.imageUrl, isGeneratingImage: current.isGeneratingImage } : scene;
+    }));
+    setDeletedNotice(null);
+    setEditingId(null);
+    needsSaveRef.current = true;
+  };
+
+  const handleSaveScene = (id: string, changes: Pick<SceneCard, 'description' | 'visuals' | 'dialogue' | 'sound'>) => {
+    // An image rendered from other visuals no longer shows the scene, so it goes and can be generated again.
+    changeScenes(scenes.map(scene => {
+      if (scene.id !== id) return scene;
+      return changes.visuals === scene.visuals ? { ...scene, ...changes } : { ...scene, ...changes, imageUrl: null };
+    }));
+    setEditingId(null);
+  };
+
+  const handleInsertScene = (index: number) => {
+    if (!canAddScenes) return;
+    const blank = withSceneId({ sceneNumber: 0, description: '', visuals: '', dialogue: '', sound: '' });
+    changeScenes([...scenes.slice(0, index), blank, ...scenes.slice(index)]);
+    setEditingId(blank.id);
+  };
+
+  const handleDuplicateScene = (index: number) => {
+    if (!canAddScenes) return;
+    const { isGeneratingImage, ...copy } = scenes[index];
+    changeScenes([...scenes.slice(0, index + 1), withSceneId(copy), ...scenes.slice(index + 1)]);
+  };
+
+  const handleDeleteScene = (index: number) => {
+    const scene = scenes[index];
+    changeScenes(scenes.filter((_, position) => position !== index));
+    setDeletedNotice(`Scene ${scene.sceneNumber}${scene.description ? ` ("${scene.description}")` : ''} deleted.`);
+    if (editingId === scene.id) setEditingId(null);
+  };
+
+  const handleMoveScene = (id: string, toIndex: number) => {
+    const from = scenes.findIndex(scene => scene.id === id);
+    if (from < 0 || toIndex < 0 || toIndex >= scenes.length || from === toIndex) return;
+    const next = scenes.filter(scene => scene.id !== id);
+    next.splice(toIndex, 0, scenes[from]);
+    changeScenes(next);
+  };
+
+  const storyContext = (): StoryboardContext => ({
+    topic, style: tone, characterGender, hasCharacterImage: !!characterImage, profile, scenes,
+  });
+
+  // The model works from the board as it was when asked; its scenes are applied to the board as it is
+  // when they arrive, located by id, so edits and images that landed meanwhile are kept. Scenes it
+  // writes have no image yet.
+  const runSceneTask = async (
+    task: string,
+    request: () => Promise<Omit<SceneCard, 'sceneNumber'>[]>,
+    apply: (current: StoryScene[], written: StoryScene[]) => StoryScene[] | null,
+    failure: string,
+  ) => {
+    setSceneTask(task); setError(null);
+    try {
+      const written = (await request()).map(scene => withSceneId({ ...scene, sceneNumber: 0 }));
+      const next = apply(scenesRef.current, written);
+      if (next) changeScenes(next);
+      else setError('That scene was deleted before the new version arrived, so nothing was changed.');
+      setAiSceneId(null); setSceneInstruction(''); setExtendInstruction('');
+    } catch (err) {
+      setError(describeError(err, failure));
+      console.error(err);
+    } finally {
+      setSceneTask(null);
+    }
+  };
+
+  // Swaps the scene with `id` for the written scenes, wherever it has moved to.
+  const replaceScene = (id: string) => (current: StoryScene[], written: StoryScene[]) => {
+    const at = current.findIndex(scene => scene.id === id);
+    return at < 0 ? null : [...current.slice(0, at), ...written, ...current.slice(at + 1)];
+  };
+
+  const handleRewriteScene = (index: number) => {
+    const instruction = sceneInstruction.trim();
+    runSceneTask(
+      `rewrite:${scenes[index].id}`,
+      async () => [await rewriteScene(storyContext(), index, instruction)],
+      replaceScene(scenes[index].id),
+      `Failed to rewrite scene ${index + 1}. Please try again.`,
+    );
+  };
+
+  const handleSplitScene = (index: number) => {
+    runSceneTask(
+      `split:${scenes[index].id}`,
+      () => splitScene(storyContext(), index, sceneInstruction.trim() || undefined),
+      replaceScene(scenes[index].id),
+      `Failed to split scene ${index + 1}. Please try again.`,
+    );
+  };
+
+  const handleBridgeScenes = (index: number) => {
+    const id = scenes[index].id;
+    runSceneTask(
+      `bridge:${id}`,
+      async () => [await bridgeScenes(storyContext(), index)],
+      (current, written) => {
+        const at = current.findIndex(scene => scene.id === id);
+        return at < 0 ? null : [...current.slice(0, at + 1), ...written, ...current.slice(at + 1)];
+      },
+      `Failed to bridge scenes ${index + 1} and ${index + 2}. Please try again.`,
+    );
+  };
+
+  const handleExtendStory = () => {
+    runSceneTask(
+      'extend',
+      () => extendStory(storyContext(), extendBy, extendInstruction.trim() || undefined),
+      (current, written) => [...current, ...written],
+      'Failed to extend the story. Please try again.',
+    );
+  };
+
+  const handleToggleScenePanel = (id: string) => {
+    setAiSceneId(aiSceneId === id ? null : id);
+    setSceneInstruction('');
+  };
+
+  const handleSaveThumbnailPrompt = (prompt: string) => {
+    // Like a scene's visuals, a new prompt makes the old thumbnail stale.
+    setThumbnail(prev => prev && { ...prev, prompt, imageUrl: prompt === prev.prompt ? prev.imageUrl : null });
+    needsSaveRef.current = true;
+  };
+
+  // Queues every image that is still missing and not already being generated by hand.
+  const handleRenderAll = () => {
+    const jobs: Job<RenderedImage>[] = [];
+    if (thumbnail && needsImage({ ...thumbnail, visuals: thumbnail.prompt })) {
+      jobs.push({
+        id: 'thumbnail',
+        label: 'Thumbnail',
+        // Like the scenes, the prompt as it is when the job starts.
+        run: () => {
+          const current = thumbnailRef.current;
+          if (!current?.prompt.trim()) return Promise.reject(new ApiError('INVALID_REQUEST', 'The thumbnail prompt was cleared before its turn.'));
+          return renderImage('thumbnail', current.prompt);
+        },
+        onDone: image => storeImage('thumbnail', image),
+      });
+    }
+    for (const scene of scenes) {
+      if (!needsImage(scene)) continue;
+      jobs.push({
+        id: scene.id,
+        label: `Scene ${scene.sceneNumber}`,
+        // The visuals as they are when the job starts, so edits made while it waited are rendered.
+        run: () => {
+          const current = scenesRef.current.find(item => item.id === scene.id);
+          if (!current?.visuals.trim()) {
+            return Promise.reject(new ApiError('INVALID_REQUEST', 'The scene was deleted or its visuals were cleared before its turn.'));
+          }
+          return renderImage('scene', current.visuals);
+        },
+        onDone: image => storeImage('scene', image, scene.id),
+      });
+    }
+    if (jobs.length === 0) return;
+    setError(null); setRenderSummary(null); setIsRenderPaused(false);
+    const queue = createJobQueue(jobs, { concurrency: renderConcurrency, retryOptions: DEFAULT_JOB_RETRY_OPTIONS, onUpdate: setRenderJobs });
+    renderQueueRef.current = queue;
+    queue.finished.then(states => {
+      if (renderQueueRef.current !== queue) return;
+      renderQueueRef.current = null;
+      setRenderJobs([]);
+      setRenderSummary(states);
+    });
+  };
+
+  const handleRenderConcurrency = (value: number) => {
+    setRenderConcurrency(value);
+    renderQueueRef.current?.setConcurrency(value);
+  };
+
+  const handleToggleRenderPause = () => {
+    if (isRenderPaused) renderQueueRef.current?.resume(); else renderQueueRef.current?.pause();
+    setIsRenderPaused(!isRenderPaused);
+  };
+
+  const isRendering = renderJobs.length > 0;
+  const renderJob = (id: string) => renderJobs.find(job => job.id === id);
+  const renderedCount = renderJobs.filter(job => job.status === 'done').length;
+  const missingImageCount = (thumbnail && needsImage({ ...thumbnail, visuals: thumbnail.prompt }) ? 1 : 0) + scenes.filter(needsImage).length;
+  const failedRenders = renderSummary?.filter(job => job.status === 'failed') ?? [];
+  // Operations that add scenes stay within what the server accepts as context next time.
+  const canAddScenes = scenes.length < MAX_STORY_SCENES;
+  const canUseSceneAI = !isLoading && !sceneTask && !!topic.trim() && scenes.length <= MAX_STORY_SCENES;
+  const maxExtendCount = Math.min(MAX_EXTEND_SCENES, MAX_STORY_SCENES - scenes.length);
+  const extendBy = Math.max(1, Math.min(extendCount, maxExtendCount));
 
   const handleClear = () => {
     setTopic(''); setTone(''); setSceneCount('7'); setCharacterGender('female'); setCharacterImage(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
     setAspectRatio(aspectRatios[0]); setScenes([]); setThumbnail(null); setError(null); setGenerationStatus('');
+    setSceneUndo([]); setDeletedNotice(null); setEditingId(null); setAiSceneId(null);
+    setLibraryId(null); onSaved?.(null);
   };
 
   const allImagesGenerated = !!(thumbnail?.imageUrl && scenes.length > 0 && scenes.every(s => !!s.imageUrl));
@@ -119,7 +479,7 @@ export const StoryBoardGenerator: React.FC = () => {
     }
     for (const scene of scenes) {
       if (scene.imageUrl) {
-        const response = await fetch(scene.imageUrl);
+        const response = await fetch(await applyWatermark(scene.imageUrl, brandKit));
         zip.file(`scene-${String(scene.sceneNumber).padStart(2, '0')}.png`, await response.blob());
       }
     }
@@ -131,13 +491,7 @@ export const StoryBoardGenerator: React.FC = () => {
     setIsZipping(true); setError(null);
     try {
       const content = await createZipBlob();
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = `${topic.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'storyboard'}.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
+      downloadBlob(content, `${topic.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'storyboard'}.zip`);
     } catch (err) {
       setError('Failed to create ZIP file.'); console.error(err);
     } finally { setIsZipping(false); }
@@ -150,12 +504,12 @@ export const StoryBoardGenerator: React.FC = () => {
       const blob = await createZipBlob();
       const fileData = await blobToBase64(blob);
       const fileName = `${topic.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'storyboard'}.zip`;
-      const result = await savePackageToDrive(googleAccessToken, fileData, fileName);
+      const result = await savePackageToDrive(googleAccessToken, fileData, fileName, { folderName: GOOGLE_DRIVE_FOLDER_NAME });
       alert(`Successfully saved to Google Drive! View file: ${result.webViewLink}`);
-    } catch (err: any) {
-      setError(err.message || 'Failed to save to Google Drive. Your token may have expired. Please try connecting again.');
+    } catch (err) {
+      setError(describeError(err, 'Failed to save to Google Drive. Please try again.'));
       console.error(err);
-      setGoogleAccessToken(null);
+      if (err instanceof ApiError && err.code === 'UNAUTHORIZED') setGoogleAccessToken(null);
     } finally { setIsSavingToDrive(false); }
   };
 
@@ -230,7 +584,7 @@ export const StoryBoardGenerator: React.FC = () => {
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">Image Aspect Ratio</label>
             <div className="bg-gray-700/80 p-1 rounded-lg">
-              <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} className="w-full px-2 py-2 bg-gray-800 border-none rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 appearance-none text-center font-semibold">
+              <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value as AspectRatio)} className="w-full px-2 py-2 bg-gray-800 border-none rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 appearance-none text-center font-semibold">
                 {aspectRatios.map(r => <option key={r} value={r}>{r}</option>)}
               </select>
             </div>
@@ -257,12 +611,12 @@ export const StoryBoardGenerator: React.FC = () => {
         <div className="mt-6 pt-6 border-t border-gray-600 flex items-center gap-4">
           <button
             onClick={handleGenerate}
-            disabled={isLoading || !topic}
+            disabled={isLoading || isRendering || !!sceneTask || !topic}
             className="w-full flex items-center justify-center px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-all duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
           >
             {isLoading ? <Spinner /> : <><FilmIcon className="h-5 w-5 mr-2" /> {scenes.length > 0 ? 'Regenerate Storyboard' : 'Generate Storyboard'}</>}
           </button>
-          {scenes.length > 0 && !isLoading && (
+          {scenes.length > 0 && !isLoading && !isRendering && !sceneTask && (
             <button
               onClick={handleClear}
               className="flex-shrink-0 flex items-center justify-center px-6 py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500"
@@ -280,7 +634,26 @@ export const StoryBoardGenerator: React.FC = () => {
         <div className="mt-8">
           <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
             <h3 className="text-2xl font-bold text-gray-100">Storyboard</h3>
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {!isLoading && !isRendering && missingImageCount > 0 && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={renderConcurrency}
+                    onChange={(e) => handleRenderConcurrency(Number(e.target.value))}
+                    aria-label="Images rendered at a time"
+                    title="Images rendered at a time"
+                    className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {renderConcurrencyOptions.map(option => <option key={option} value={option}>{option} at a time</option>)}
+                  </select>
+                  <button
+                    onClick={handleRenderAll}
+                    className="flex items-center justify-center px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-all duration-200"
+                  >
+                    <PhotoIcon className="h-5 w-5 mr-2" /> Render all ({missingImageCount})
+                  </button>
+                </div>
+              )}
               {googleAccessToken ? (
                 <>
                   {allImagesGenerated && (
@@ -320,6 +693,76 @@ export const StoryBoardGenerator: React.FC = () => {
             </div>
           )}
 
+          {isRendering && (
+            <div className="mb-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600/50 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-gray-300 font-semibold mr-auto">
+                  {isRenderPaused ? 'Paused' : 'Rendering'}: {renderedCount} of {renderJobs.length} images done
+                </p>
+                <select
+                  value={renderConcurrency}
+                  onChange={(e) => handleRenderConcurrency(Number(e.target.value))}
+                  aria-label="Images rendered at a time"
+                  className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {renderConcurrencyOptions.map(option => <option key={option} value={option}>{option} at a time</option>)}
+                </select>
+                <button onClick={handleToggleRenderPause} className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm text-white font-semibold transition-colors">
+                  {isRenderPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button onClick={() => renderQueueRef.current?.cancel()} className="px-3 py-1.5 bg-red-800 hover:bg-red-700 rounded-lg text-sm text-white font-semibold transition-colors">
+                  Cancel
+                </button>
+              </div>
+              <div className="h-2 bg-gray-600 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${(renderedCount / renderJobs.length) * 100}%` }} />
+              </div>
+              <ul className="flex flex-wrap gap-2 text-xs">
+                {renderJobs.map(job => (
+                  <li key={job.id} className={`px-2 py-1 rounded-full ${jobStatusClasses[job.status]}`} title={job.error}>
+                    {job.label}: {jobStatusLabel(job)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {renderSummary && (
+            <div className={`mb-6 p-4 rounded-lg border space-y-2 ${failedRenders.length > 0 ? 'bg-red-900/20 border-red-800/50' : 'bg-gray-700/50 border-gray-600/50'}`}>
+              <div className="flex items-start gap-3">
+                <p className="text-gray-300 font-semibold mr-auto">
+                  Rendered {renderSummary.filter(job => job.status === 'done').length} of {renderSummary.length} images
+                  {failedRenders.length > 0 && `, ${failedRenders.length} failed`}
+                  {renderSummary.some(job => job.status === 'cancelled') && `, ${renderSummary.filter(job => job.status === 'cancelled').length} cancelled`}.
+                </p>
+                {failedRenders.length > 0 && missingImageCount > 0 && (
+                  <button onClick={handleRenderAll} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm text-white font-semibold transition-colors">
+                    Retry missing
+                  </button>
+                )}
+                <button onClick={() => setRenderSummary(null)} className="p-1.5 text-gray-400 hover:text-white" aria-label="Dismiss summary">
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+              {failedRenders.length > 0 && (
+                <ul className="text-sm text-red-300 space-y-1">
+                  {failedRenders.map(job => (
+                    <li key={job.id}><strong>{job.label}</strong> ({job.attempts} attempt{job.attempts === 1 ? '' : 's'}): {job.error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {(deletedNotice || sceneUndo.length > 0) && !isLoading && (
+            <div className="mb-6 flex items-center gap-3 p-3 bg-gray-700/50 rounded-lg border border-gray-600/50">
+              <p className="text-sm text-gray-300 mr-auto">{deletedNotice ?? `${sceneUndo.length} scene change${sceneUndo.length === 1 ? '' : 's'} can be undone.`}</p>
+              <button onClick={handleUndoScenes} className="flex items-center px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm text-white font-semibold transition-colors">
+                <ArrowUturnLeftIcon className="h-4 w-4 mr-2" /> Undo
+              </button>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6">
             {thumbnail && <ImageCard
               title="Thumbnail"
@@ -327,28 +770,178 @@ export const StoryBoardGenerator: React.FC = () => {
               imageData={thumbnail}
               onGenerate={() => handleGenerateImage('thumbnail', thumbnail.prompt)}
               aspectRatio={aspectRatio}
+              job={renderJob('thumbnail')}
+              onSavePrompt={isLoading ? undefined : handleSaveThumbnailPrompt}
             />}
-            {scenes.map((scene) => (
-              <div key={scene.sceneNumber} className="bg-gray-700/50 rounded-lg border border-gray-600/50 flex flex-col animate-fade-in">
-                <div className="p-5 space-y-4 flex-grow">
-                  <div className="flex justify-between items-start border-b border-gray-600 pb-3">
-                    <h4 className="text-xl font-bold text-gray-100">Scene {scene.sceneNumber}</h4>
-                    <p className="text-sm text-right text-gray-400 flex-shrink-1 ml-4">{scene.description}</p>
+            {scenes.map((scene, index) => (
+              <div
+                key={scene.id}
+                draggable={!isLoading && editingId !== scene.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', scene.id);
+                  setDragId(scene.id);
+                }}
+                onDragOver={(e) => {
+                  if (!dragId) return;
+                  e.preventDefault();
+                  setDropId(scene.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragId) handleMoveScene(dragId, index);
+                  setDragId(null); setDropId(null);
+                }}
+                onDragEnd={() => { setDragId(null); setDropId(null); }}
+                className={`bg-gray-700/50 rounded-lg border border-gray-600/50 flex flex-col animate-fade-in transition-opacity ${dragId === scene.id ? 'opacity-50' : ''} ${dropId === scene.id && dragId !== scene.id ? 'ring-2 ring-indigo-500' : ''}`}
+              >
+                {editingId === scene.id ? (
+                  <SceneEditor scene={scene} onSave={(changes) => handleSaveScene(scene.id, changes)} onCancel={() => setEditingId(null)} />
+                ) : (
+                  <div className="p-5 space-y-4 flex-grow">
+                    <div className="flex justify-between items-start border-b border-gray-600 pb-3">
+                      <div className="flex items-center gap-2">
+                        {!isLoading && (
+                          <button
+                            onKeyDown={(e) => {
+                              if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown' && e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+                              e.preventDefault();
+                              handleMoveScene(scene.id, index + (e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : 1));
+                            }}
+                            className="p-1 text-gray-500 hover:text-gray-200 cursor-grab rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            aria-label={`Move scene ${scene.sceneNumber}: drag, or use the arrow keys`}
+                            title="Drag to reorder"
+                          >
+                            <Bars3Icon className="h-5 w-5" />
+                          </button>
+                        )}
+                        <h4 className="text-xl font-bold text-gray-100">Scene {scene.sceneNumber}</h4>
+                      </div>
+                      <p className="text-sm text-right text-gray-400 flex-shrink-1 ml-4">{scene.description}</p>
+                    </div>
+                    <SceneDetail label="Dialogue / Narration" content={scene.dialogue} />
+                    <SceneDetail label="Sound & Music" content={scene.sound} />
+                    {!isLoading && (
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => setEditingId(scene.id)} className={sceneToolClasses} aria-label={`Edit scene ${scene.sceneNumber}`} title="Edit scene">
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDuplicateScene(index)} disabled={!canAddScenes} className={sceneToolClasses} aria-label={`Duplicate scene ${scene.sceneNumber}`} title="Duplicate scene">
+                          <DocumentDuplicateIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleInsertScene(index + 1)} disabled={!canAddScenes} className={sceneToolClasses} aria-label={`Insert a blank scene after scene ${scene.sceneNumber}`} title="Insert a blank scene after this one">
+                          <PlusIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDeleteScene(index)} className={`${sceneToolClasses} hover:text-red-400`} aria-label={`Delete scene ${scene.sceneNumber}`} title="Delete scene">
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleScenePanel(scene.id)}
+                          className={`${sceneToolClasses} ${aiSceneId === scene.id ? 'text-indigo-300' : ''}`}
+                          aria-label={`AI tools for scene ${scene.sceneNumber}`}
+                          aria-expanded={aiSceneId === scene.id}
+                          title="Rewrite, split or bridge with AI"
+                        >
+                          <SparklesIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                    {!isLoading && aiSceneId === scene.id && (
+                      <div className="p-3 bg-gray-800/60 rounded-lg border border-gray-600/50 space-y-2">
+                        <input
+                          type="text"
+                          value={sceneInstruction}
+                          onChange={(e) => setSceneInstruction(e.target.value)}
+                          maxLength={500}
+                          placeholder="e.g., Make it more hopeful"
+                          aria-label={`Instruction for scene ${scene.sceneNumber}`}
+                          className={editorInputClasses}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            onClick={() => handleRewriteScene(index)}
+                            disabled={!canUseSceneAI || !sceneInstruction.trim()}
+                            className={sceneAIButtonClasses}
+                            title="Rewrite this scene following the instruction"
+                          >
+                            {sceneTask === `rewrite:${scene.id}` ? <Spinner size="small" /> : 'Rewrite'}
+                          </button>
+                          <button
+                            onClick={() => handleSplitScene(index)}
+                            disabled={!canUseSceneAI || !canAddScenes}
+                            className={sceneAIButtonClasses}
+                            title="Replace this scene with two that tell the same beat in more detail"
+                          >
+                            {sceneTask === `split:${scene.id}` ? <Spinner size="small" /> : 'Split in two'}
+                          </button>
+                          <button
+                            onClick={() => handleBridgeScenes(index)}
+                            disabled={!canUseSceneAI || !canAddScenes || index === scenes.length - 1}
+                            className={sceneAIButtonClasses}
+                            title="Insert a scene that leads from this one into the next"
+                          >
+                            {sceneTask === `bridge:${scene.id}` ? <Spinner size="small" /> : 'Bridge to next'}
+                          </button>
+                        </div>
+                        <p className="text-xs text-gray-500">Rewrite needs an instruction; for a split it is optional. New scenes need their images generated again.</p>
+                      </div>
+                    )}
                   </div>
-                  <SceneDetail label="Dialogue / Narration" content={scene.dialogue} />
-                  <SceneDetail label="Sound & Music" content={scene.sound} />
-                </div>
+                )}
                 <ImageCard
                   title={`Scene ${scene.sceneNumber} Visuals`}
                   prompt={scene.visuals}
                   imageData={scene}
-                  onGenerate={() => handleGenerateImage('scene', scene.visuals, scene.sceneNumber)}
+                  onGenerate={() => handleGenerateImage('scene', scene.visuals, scene)}
                   aspectRatio={aspectRatio}
+                  job={renderJob(scene.id)}
                   isSceneCard
                 />
               </div>
             ))}
+            {!isLoading && (scenes.length > 0 || thumbnail) && canAddScenes && (
+              <button
+                onClick={() => handleInsertScene(scenes.length)}
+                className="min-h-[12rem] flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition-colors"
+              >
+                <PlusIcon className="h-8 w-8 mb-2" />
+                <span className="font-semibold">Add scene</span>
+              </button>
+            )}
           </div>
+
+          {!isLoading && scenes.length > 0 && (
+            <div className="mt-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600/50 flex flex-wrap items-center gap-3">
+              <p className="text-gray-300 font-semibold">Extend the ending</p>
+              <select
+                value={extendBy}
+                onChange={(e) => setExtendCount(Number(e.target.value))}
+                aria-label="Scenes to add"
+                className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {Array.from({ length: Math.max(1, maxExtendCount) }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count} scene{count === 1 ? '' : 's'}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={extendInstruction}
+                onChange={(e) => setExtendInstruction(e.target.value)}
+                maxLength={500}
+                placeholder="Optional direction, e.g., End on a twist"
+                aria-label="Direction for the new ending"
+                className="flex-grow min-w-[12rem] px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={handleExtendStory}
+                disabled={!canUseSceneAI || maxExtendCount < 1}
+                className="flex items-center justify-center px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-all duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+              >
+                {sceneTask === 'extend' ? <Spinner size="small" /> : <><SparklesIcon className="h-5 w-5 mr-2" /> Extend</>}
+              </button>
+              {maxExtendCount < 1 && <p className="w-full text-xs text-gray-400">Storyboards are limited to {MAX_STORY_SCENES} scenes.</p>}
+            </div>
+          )}
         </div>
       )}
 
@@ -365,6 +958,63 @@ export const StoryBoardGenerator: React.FC = () => {
   );
 };
 
+const jobStatusClasses: Record<JobStatus, string> = {
+  queued: 'bg-gray-600 text-gray-300',
+  running: 'bg-indigo-600/60 text-indigo-100',
+  retrying: 'bg-amber-700/60 text-amber-100',
+  done: 'bg-teal-700/60 text-teal-100',
+  failed: 'bg-red-800/60 text-red-100',
+  cancelled: 'bg-gray-700 text-gray-400',
+};
+
+const jobStatusLabel = (job: JobState): string => {
+  switch (job.status) {
+    case 'queued': return job.attempts > 0 ? `queued for attempt ${job.attempts + 1}` : 'queued';
+    case 'running': return job.attempts > 1 ? `attempt ${job.attempts}` : 'rendering';
+    case 'retrying': return 'waiting to retry';
+    default: return job.status;
+  }
+};
+
+const sceneAIButtonClasses = "min-w-[6rem] flex items-center justify-center px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm text-white font-semibold transition-colors disabled:bg-indigo-400/50 disabled:cursor-not-allowed";
+const sceneToolClasses = "p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+const editorInputClasses = "w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+type SceneText = Pick<SceneCard, 'description' | 'visuals' | 'dialogue' | 'sound'>;
+
+const sceneTextFields: { field: keyof SceneText, label: string, rows: number }[] = [
+  { field: 'description', label: 'Description', rows: 2 },
+  { field: 'visuals', label: 'Visuals (the image prompt)', rows: 4 },
+  { field: 'dialogue', label: 'Dialogue / Narration', rows: 3 },
+  { field: 'sound', label: 'Sound & Music', rows: 2 },
+];
+
+const SceneEditor: React.FC<{ scene: SceneCard; onSave: (changes: SceneText) => void; onCancel: () => void }> = ({ scene, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SceneText>({ description: scene.description, visuals: scene.visuals, dialogue: scene.dialogue, sound: scene.sound });
+
+  return (
+    <div className="p-5 space-y-3 flex-grow">
+      <h4 className="text-xl font-bold text-gray-100 border-b border-gray-600 pb-3">Editing scene {scene.sceneNumber}</h4>
+      {sceneTextFields.map(({ field, label, rows }) => (
+        <label key={field} className="block text-xs text-gray-400 space-y-1">
+          <span>{label}</span>
+          <textarea rows={rows} value={draft[field]} onChange={(e) => setDraft({ ...draft, [field]: e.target.value })} className={editorInputClasses} />
+        </label>
+      ))}
+      {!draft.visuals.trim() && <p className="text-xs text-amber-400">Describe the visuals so an image can be generated for this scene.</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm text-white font-semibold transition-colors">Cancel</button>
+        <button
+          onClick={() => onSave({ description: draft.description.trim(), visuals: draft.visuals.trim(), dialogue: draft.dialogue.trim(), sound: draft.sound.trim() })}
+          className="px-3 py-1.5 bg-teal-600 hover:bg-teal-500 rounded-lg text-sm text-white font-semibold transition-colors"
+        >
+          Save scene
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const SceneDetail: React.FC<{label: string; content: string}> = ({ label, content }) => (
   <div>
     <h5 className="font-semibold text-indigo-400 mb-1">{label}</h5>
@@ -377,11 +1027,17 @@ interface ImageCardProps {
   prompt: string;
   imageData: ThumbnailData | SceneCard;
   onGenerate: () => void;
-  aspectRatio: string;
+  aspectRatio: AspectRatio;
+  /** This image's "Render all" job, while the queue runs. */
+  job?: JobState;
+  /** Makes the prompt editable in place. */
+  onSavePrompt?: (prompt: string) => void;
   isSceneCard?: boolean;
 }
 
-const ImageCard: React.FC<ImageCardProps> = ({ title, prompt, imageData, onGenerate, aspectRatio, isSceneCard }) => {
+const ImageCard: React.FC<ImageCardProps> = ({ title, prompt, imageData, onGenerate, aspectRatio, job, onSavePrompt, isSceneCard }) => {
+  const [promptDraft, setPromptDraft] = useState<string | null>(null);
+
   const aspectRatioClass = {
     "16:9": "aspect-video",
     "1:1": "aspect-square",
@@ -394,18 +1050,43 @@ const ImageCard: React.FC<ImageCardProps> = ({ title, prompt, imageData, onGener
 
   return (
     <div className={containerClasses}>
-      <h5 className="font-semibold text-teal-300 mb-2">{title}</h5>
-      <p className="text-gray-400 text-sm mb-4 leading-relaxed">{prompt}</p>
+      <div className="flex justify-between items-start gap-2 mb-2">
+        <h5 className="font-semibold text-teal-300">{title}</h5>
+        {onSavePrompt && promptDraft === null && (
+          <button onClick={() => setPromptDraft(prompt)} className={sceneToolClasses} aria-label={`Edit the ${title.toLowerCase()} prompt`} title="Edit prompt">
+            <PencilIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {promptDraft !== null && onSavePrompt ? (
+        <div className="mb-4 space-y-2">
+          <textarea rows={4} value={promptDraft} onChange={(e) => setPromptDraft(e.target.value)} className={editorInputClasses} aria-label={`${title} prompt`} />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPromptDraft(null)} className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm text-white font-semibold transition-colors">Cancel</button>
+            <button
+              onClick={() => { onSavePrompt(promptDraft.trim()); setPromptDraft(null); }}
+              disabled={!promptDraft.trim()}
+              className="px-3 py-1.5 bg-teal-600 hover:bg-teal-500 rounded-lg text-sm text-white font-semibold transition-colors disabled:bg-teal-400 disabled:cursor-not-allowed"
+            >
+              Save prompt
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm mb-4 leading-relaxed">{prompt}</p>
+      )}
       <div className={`${aspectRatioClass} bg-gray-700/50 rounded-lg flex items-center justify-center overflow-hidden`}>
-        {('isGeneratingImage' in imageData && imageData.isGeneratingImage) ? (
+        {(('isGeneratingImage' in imageData && imageData.isGeneratingImage) || job?.status === 'running') ? (
           <div className="text-center text-gray-400">
             <Spinner />
             <p className="text-sm mt-2">Generating Image...</p>
           </div>
+        ) : (job?.status === 'queued' || job?.status === 'retrying') ? (
+          <p className="text-sm text-gray-400">{job.status === 'queued' ? 'Queued' : 'Waiting to retry...'}</p>
         ) : ('imageUrl' in imageData && imageData.imageUrl) ? (
           <img src={imageData.imageUrl} alt={title} className="w-full h-full object-cover" />
         ) : (
-          <button onClick={onGenerate} className="flex flex-col items-center text-gray-400 hover:text-white transition-colors">
+          <button onClick={onGenerate} disabled={!prompt.trim()} className="flex flex-col items-center text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-400">
             <PhotoIcon className="h-10 w-10 mb-2" />
             <span className="font-semibold text-sm">Generate Image</span>
           </button>
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { getAutomationStrategies } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
 import { Spinner } from './Spinner';
 import { XMarkIcon, LightBulbIcon } from './Icons';
 import type { Strategy } from '../types';
@@ -21,7 +22,7 @@ export const StrategyModal: React.FC<StrategyModalProps> = ({ onClose }) => {
       const fetchedStrategies = await getAutomationStrategies();
       setStrategies(fetchedStrategies);
     } catch (err) {
-      setError('Could not load automation strategies. Please try again later.');
+      setError(describeError(err, 'Could not load automation strategies. Please try again later.'));
       console.error(err);
     } finally {
       setIsLoading(false);
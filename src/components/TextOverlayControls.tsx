@@ -0,0 +1,155 @@
+import React from 'react';
+import { OVERLAY_FONTS, OVERLAY_POSITIONS } from '../utils/textOverlay';
+import type { OverlayPosition, TextOverlayStyle, TextStyle } from '../types';
+
+interface TextOverlayControlsProps<S extends TextStyle> {
+  /** A preset style also gets position and margin controls; a designer text box only gets typography. */
+  style: S;
+  defaultStyle: S;
+  onChange: (style: S) => void;
+  disabled?: boolean;
+  /** Brand palette colors offered as one-click text colors. */
+  swatches?: string[];
+}
+
+const positionLabels: Record<OverlayPosition, string> = {
+  'top': 'Top',
+  'center': 'Center',
+  'bottom': 'Bottom',
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+// Fixed sizes as a share of the image's shorter side.
+const sizeOptions: { label: string, value: number | null }[] = [
+  { label: 'Auto-fit', value: null },
+  { label: 'Small', value: 0.04 },
+  { label: 'Medium', value: 0.06 },
+  { label: 'Large', value: 0.08 },
+  { label: 'Extra large', value: 0.11 },
+];
+
+// Effect settings applied when an effect is switched on.
+const SHADOW: TextStyle['shadow'] = { color: 'rgba(0, 0, 0, 0.6)', blur: 0.2, offset: 0.04 };
+const STROKE: TextStyle['stroke'] = { color: '#000000', width: 0.08 };
+const SCRIM: TextStyle['scrim'] = { color: '#000000', opacity: 0.45, padding: 0.6 };
+
+const selectClasses = "w-full px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+
+const hasPlacement = (style: TextStyle): style is TextOverlayStyle => 'position' in style;
+
+export const TextOverlayControls = <S extends TextStyle>({ style, defaultStyle, onChange, disabled, swatches = [] }: TextOverlayControlsProps<S>): React.ReactElement => {
+  const update = (changes: Partial<TextOverlayStyle>) => onChange({ ...style, ...changes });
+  const placement = hasPlacement(style) ? style : null;
+
+  const toggleClasses = (active: boolean) =>
+    `px-2 py-1.5 text-sm rounded-md font-semibold transition-colors disabled:opacity-50 ${active ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <fieldset disabled={disabled} className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-sm font-semibold text-gray-300">Text style</p>
+        <button onClick={() => onChange(defaultStyle)} className="text-xs text-gray-400 hover:text-white">Reset</button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Font</span>
+          <select value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={selectClasses}>
+            {OVERLAY_FONTS.map(font => <option key={font.family} value={font.family}>{font.family}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Weight</span>
+          <select value={style.fontWeight} onChange={(e) => update({ fontWeight: Number(e.target.value) })} className={selectClasses}>
+            <option value={400}>Regular</option>
+            <option value={700}>Bold</option>
+            <option value={900}>Black</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Size</span>
+          <select
+            value={style.fontSize === null ? '' : String(style.fontSize)}
+            onChange={(e) => update({ fontSize: e.target.value ? Number(e.target.value) : null })}
+            className={selectClasses}
+          >
+            {sizeOptions.map(option => <option key={option.label} value={option.value === null ? '' : String(option.value)}>{option.label}</option>)}
+          </select>
+        </label>
+        {placement && (
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Position</span>
+            <select value={placement.position} onChange={(e) => update({ position: e.target.value as OverlayPosition })} className={selectClasses}>
+              {OVERLAY_POSITIONS.map(position => <option key={position} value={position}>{positionLabels[position]}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {(['left', 'center', 'right'] as const).map(align => (
+          <button key={align} onClick={() => update({ align })} className={toggleClasses(style.align === align)} aria-pressed={style.align === align}>
+            {align[0].toUpperCase() + align.slice(1)}
+          </button>
+        ))}
+        <button onClick={() => update({ italic: !style.italic })} className={toggleClasses(style.italic)} aria-pressed={style.italic}>
+          <span className="italic">Italic</span>
+        </button>
+        <label className="flex items-center gap-1 text-xs text-gray-400 ml-auto">
+          Color
+          <input type="color" value={style.color} onChange={(e) => update({ color: e.target.value })} className="h-8 w-10 bg-transparent rounded cursor-pointer" />
+        </label>
+      </div>
+      {swatches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400">Brand colors</span>
+          {swatches.map(color => (
+            <button
+              key={color}
+              onClick={() => update({ color })}
+              title={color}
+              aria-label={`Use brand color ${color}`}
+              aria-pressed={style.color.toLowerCase() === color}
+              className={`h-6 w-6 rounded border-2 ${style.color.toLowerCase() === color ? 'border-indigo-400' : 'border-gray-500'}`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => update({ shadow: style.shadow ? null : SHADOW })}
+          className={toggleClasses(!!style.shadow)}
+          aria-pressed={!!style.shadow}
+        >
+          Shadow
+        </button>
+        <button
+          onClick={() => update({ stroke: style.stroke ? null : STROKE })}
+          className={toggleClasses(!!style.stroke)}
+          aria-pressed={!!style.stroke}
+        >
+          Outline
+        </button>
+        <button
+          onClick={() => update({ scrim: style.scrim ? null : SCRIM })}
+          className={toggleClasses(!!style.scrim)}
+          aria-pressed={!!style.scrim}
+        >
+          Backdrop
+        </button>
+        {placement && (
+          <label className="flex items-center gap-1 text-xs text-gray-400 ml-auto">
+            Margin
+            <select value={String(placement.margin)} onChange={(e) => update({ margin: Number(e.target.value) })} className="px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded-lg">
+              <option value="0.04">Narrow</option>
+              <option value="0.08">Normal</option>
+              <option value="0.12">Wide</option>
+            </select>
+          </label>
+        )}
+      </div>
+    </fieldset>
+  );
+};
@@ -1,18 +1,54 @@
-import React, { useState, useCallback } from 'react';
-import { generateVideoPrompts } from '../services/geminiService';
-import type { VideoPrompt } from '../types';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { generateVideoPrompts, regenerateVideoClip } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import { autoSaveLibraryItem } from '../services/contentLibrary';
+import { DEFAULT_VIDEO_SETTINGS, MAX_CLIP_SECONDS, MAX_VIDEO_CLIPS, VIDEO_MODELS, VIDEO_MODEL_PROFILES } from '../services/apiActions';
+import { VIDEO_EXPORT_FORMATS, clipTimings, formatVideoPrompt, formatVideoPrompts, videoPromptIssues } from '../services/videoPrompts';
+import type { VideoExportFormat, VideoPromptField } from '../services/videoPrompts';
+import { downloadBlob, fileToBase64 } from '../utils/fileUtils';
+import type { BrandProfile, VideoModel, VideoPrompt, VideoPromptSettings, VideoPromptsLibraryItem } from '../types';
 import { Spinner } from './Spinner';
-import { SparklesIcon, VideoCameraIcon, ClipboardIcon, CheckIcon, XMarkIcon } from './Icons';
+import { SparklesIcon, VideoCameraIcon, ClipboardIcon, CheckIcon, XMarkIcon, ArrowUpTrayIcon, ArrowDownTrayIcon, PencilIcon, ArrowPathIcon } from './Icons';
 
 interface VideoPromptGeneratorProps {
   quote: string;
   image?: string;
+  /** The image was uploaded rather than generated; saved with the prompts so it reopens as such. */
+  imageUploaded?: boolean;
+  profile?: BrandProfile;
+  /** Last saved prompt set; restored when it was made for the current quote and image. */
+  savedItem?: VideoPromptsLibraryItem | null;
+  onSaved?: (item: VideoPromptsLibraryItem | null) => void;
+  /** Makes an uploaded photo the context image (and the Content Generator's background). */
+  onUseImage?: (image: string) => Promise<void>;
 }
 
-export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quote, image }) => {
-  const [prompts, setPrompts] = useState<VideoPrompt[]>([]);
+const clipCounts = Array.from({ length: MAX_VIDEO_CLIPS }, (_, i) => i + 1);
+
+// Clips are rewritten and edited in place, so each gets a key for this session that outlives its position.
+type VideoClip = VideoPrompt & { id: string };
+
+const withClipId = (prompt: VideoPrompt): VideoClip => ({ ...prompt, id: crypto.randomUUID() });
+
+const withoutClipIds = (clips: VideoClip[]): VideoPrompt[] => clips.map(({ id, ...prompt }) => prompt);
+
+const nearestDuration = (seconds: number, durations: number[]) =>
+  durations.reduce((best, option) => (Math.abs(option - seconds) < Math.abs(best - seconds) ? option : best));
+
+export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quote, image, imageUploaded, profile, savedItem, onSaved, onUseImage }) => {
+  const restored = savedItem && savedItem.data.quote === quote && savedItem.data.image === image ? savedItem.data : null;
+  const [prompts, setPrompts] = useState<VideoClip[]>(() => restored?.prompts.map(withClipId) ?? []);
+  // The latest clips, for results that are applied after awaiting the model.
+  const promptsRef = useRef<VideoClip[]>(prompts);
+  const [settings, setSettings] = useState<VideoPromptSettings>(() => restored?.settings ?? DEFAULT_VIDEO_SETTINGS);
+  // The settings the prompts on screen were written with, which the form may since have moved away from.
+  const [promptSettings, setPromptSettings] = useState<VideoPromptSettings>(() => restored?.settings ?? DEFAULT_VIDEO_SETTINGS);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { promptsRef.current = prompts; }, [prompts]);
 
   const handleGeneratePrompts = useCallback(async () => {
     if (!quote || !image) return;
@@ -20,27 +56,107 @@ export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quot
     setError(null);
     setPrompts([]);
     try {
-      const newPrompts = await generateVideoPrompts(quote, image);
-      setPrompts(newPrompts);
+      const newPrompts = await generateVideoPrompts(quote, image, profile, settings);
+      setPrompts(newPrompts.map(withClipId));
+      setPromptSettings(settings);
+      const item = await autoSaveLibraryItem({ kind: 'videoPrompts', data: { quote, image, imageUploaded, prompts: newPrompts, settings } });
+      if (item) onSaved?.(item);
     } catch (err) {
-      setError('Failed to generate video prompts. Please try again.');
+      setError(describeError(err, 'Failed to generate video prompts. Please try again.'));
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [quote, image]);
+  }, [quote, image, imageUploaded, profile, settings, onSaved]);
+
+  // Edits and single-clip rewrites replace the saved item's prompts rather than adding a new item.
+  const savePrompts = async (next: VideoClip[]) => {
+    promptsRef.current = next;
+    setPrompts(next);
+    if (!quote || !image) return;
+    const id = savedItem && savedItem.data.quote === quote && savedItem.data.image === image ? savedItem.id : undefined;
+    const item = await autoSaveLibraryItem({ id, kind: 'videoPrompts', data: { quote, image, imageUploaded, prompts: withoutClipIds(next), settings: promptSettings } });
+    if (item) onSaved?.(item);
+  };
+
+  const handleRegenerateClip = async (index: number) => {
+    if (!quote) return;
+    const { id } = prompts[index];
+    setRegeneratingIndex(index);
+    setError(null);
+    try {
+      const clip = await regenerateVideoClip(quote, withoutClipIds(prompts), index, image, profile, promptSettings);
+      // Merged into the clips as they are now, not as they were when the request started.
+      await savePrompts(promptsRef.current.map(prompt => (prompt.id === id ? { ...clip, id } : prompt)));
+    } catch (err) {
+      setError(describeError(err, `Failed to regenerate clip ${index + 1}. Please try again.`));
+      console.error(err);
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const handleEditClip = (id: string, clip: VideoPrompt) =>
+    savePrompts(promptsRef.current.map(prompt => (prompt.id === id ? { ...clip, id } : prompt)));
+
+  const handleExport = (format: VideoExportFormat) => {
+    const { fileSuffix, mimeType } = VIDEO_EXPORT_FORMATS[format];
+    const blob = new Blob([formatVideoPrompts(withoutClipIds(prompts), format, promptSettings.model)], { type: mimeType });
+    downloadBlob(blob, `${quote.slice(0, 40).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'video'}_${fileSuffix}`);
+  };
+
+  const updateSettings = (changes: Partial<VideoPromptSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  // Fixed-length models only offer their own clip lengths, so move to the closest one.
+  const handleModelChange = (model: VideoModel) => {
+    const durations = VIDEO_MODEL_PROFILES[model].clipDurations;
+    updateSettings({ model, clipSeconds: durations ? nearestDuration(settings.clipSeconds, durations) : settings.clipSeconds });
+  };
+
+  const modelProfile = VIDEO_MODEL_PROFILES[settings.model];
+  const plannedSeconds = settings.clipCount * settings.clipSeconds;
+  const settingClasses = "w-full px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
 
   const handleClear = () => {
     setPrompts([]);
     setError(null);
+    onSaved?.(null);
   };
 
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onUseImage) return;
+    try {
+      await onUseImage(await fileToBase64(file));
+      setPrompts([]);
+      setError(null);
+    } catch (err) {
+      setError('Failed to read the image file.');
+      console.error(err);
+    }
+  };
+
+  const uploadButton = onUseImage && (
+    <>
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/png,image/jpeg,image/webp" className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading}
+        className="inline-flex items-center px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <ArrowUpTrayIcon className="h-4 w-4 mr-2" /> {image ? 'Use a different image' : 'Use your own image'}
+      </button>
+    </>
+  );
+
   if (!quote || !image) {
     return (
       <div className="text-center text-gray-400 p-8 bg-gray-700/50 rounded-lg">
         <VideoCameraIcon className="h-12 w-12 mx-auto text-gray-500" />
-        <p className="mt-4 text-lg font-semibold">Please generate content and an image first.</p>
-        <p className="text-gray-500">Go to the "Content Generator" tab to create a quote and a corresponding image. They will be used here to craft a contextual video narrative.</p>
+        <p className="mt-4 text-lg font-semibold">Please add content and an image first.</p>
+        <p className="text-gray-500">Go to the "Content Generator" tab to create a quote and then generate an image or bring your own. They will be used here to craft a contextual video narrative.</p>
+        {quote && uploadButton && <div className="mt-4 space-y-2">{uploadButton}{error && <p className="text-red-400">{error}</p>}</div>}
       </div>
     );
   }
@@ -50,12 +166,65 @@ export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quot
       <div>
         <h2 className="text-2xl font-bold text-gray-200 mb-2">Generate Video Action Prompts</h2>
         <p className="text-gray-400 mb-4">
-          Using the generated quote and image, create a series of 3 detailed prompts for a text-to-video model like VEO.
+          Using the quote and image, create a series of {settings.clipCount} detailed prompt{settings.clipCount === 1 ? '' : 's'} for a text-to-video model, written the way {modelProfile.name} reads them.
         </p>
+        <div className="bg-gray-700/30 p-4 rounded-lg border border-gray-600/50 mb-4 space-y-2">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Target model</span>
+              <select value={settings.model} onChange={(e) => handleModelChange(e.target.value as VideoModel)} disabled={isLoading} className={settingClasses}>
+                {VIDEO_MODELS.map(model => <option key={model} value={model}>{VIDEO_MODEL_PROFILES[model].name}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Clips</span>
+              <select value={settings.clipCount} onChange={(e) => updateSettings({ clipCount: Number(e.target.value) })} disabled={isLoading} className={settingClasses}>
+                {clipCounts.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Clip length</span>
+              {modelProfile.clipDurations ? (
+                <select value={settings.clipSeconds} onChange={(e) => updateSettings({ clipSeconds: Number(e.target.value) })} disabled={isLoading} className={settingClasses}>
+                  {modelProfile.clipDurations.map(seconds => <option key={seconds} value={seconds}>{seconds} seconds</option>)}
+                </select>
+              ) : (
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CLIP_SECONDS}
+                  value={settings.clipSeconds}
+                  onChange={(e) => updateSettings({ clipSeconds: Math.min(MAX_CLIP_SECONDS, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+                  disabled={isLoading}
+                  className={settingClasses}
+                />
+              )}
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Total runtime (optional)</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_VIDEO_CLIPS * MAX_CLIP_SECONDS}
+                value={settings.targetSeconds ?? ''}
+                onChange={(e) => updateSettings({ targetSeconds: Math.min(MAX_VIDEO_CLIPS * MAX_CLIP_SECONDS, Math.round(Number(e.target.value))) || undefined })}
+                placeholder={`${plannedSeconds} seconds`}
+                disabled={isLoading}
+                className={settingClasses}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            {settings.clipCount} × {settings.clipSeconds}s = {plannedSeconds}s
+            {settings.targetSeconds ? `; clip lengths will vary to reach about ${settings.targetSeconds}s` : ''}.
+            {!modelProfile.hasAudio && ` ${modelProfile.name} clips are silent, so no dialog is written.`}
+          </p>
+        </div>
         <div className="flex flex-col sm:flex-row gap-4 bg-gray-700/50 p-4 rounded-lg mb-4">
             <div className="flex-shrink-0">
                 <p className="font-semibold text-gray-300 mb-2">Context Image:</p>
                 <img src={image} alt="Context for video prompt" className="w-24 h-24 rounded-md object-cover"/>
+                {uploadButton && <div className="mt-2">{uploadButton}</div>}
             </div>
             <div>
                 <p className="font-semibold text-gray-300 mb-2">Context Quote/Tip:</p>
@@ -65,12 +234,12 @@ export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quot
         <div className="flex items-center gap-4">
             <button
             onClick={handleGeneratePrompts}
-            disabled={isLoading}
+            disabled={isLoading || regeneratingIndex !== null}
             className="w-full flex items-center justify-center px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-semibold transition-all duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
             >
             {isLoading ? <Spinner /> : <><SparklesIcon className="h-5 w-5 mr-2" /> {prompts.length > 0 ? 'Regenerate Prompts' : 'Generate Prompts'}</>}
             </button>
-            {prompts.length > 0 && !isLoading && (
+            {prompts.length > 0 && !isLoading && regeneratingIndex === null && (
                  <button
                     onClick={handleClear}
                     className="flex-shrink-0 flex items-center justify-center px-4 py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-white font-semibold transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500"
@@ -90,10 +259,36 @@ export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quot
           </div>
       )}
 
+      {prompts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 bg-gray-700/30 p-3 rounded-lg border border-gray-600/50">
+          <p className="text-sm text-gray-400 mr-auto">
+            {prompts.length} clip{prompts.length === 1 ? '' : 's'}, {clipTimings(prompts)[prompts.length - 1].end}s in total
+          </p>
+          {(Object.keys(VIDEO_EXPORT_FORMATS) as VideoExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-gray-200 transition-colors"
+            >
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" /> {VIDEO_EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {prompts.length > 0 && (
         <div className="space-y-8">
-            {prompts.map((prompt, index) => (
-                <PromptCard key={index} prompt={prompt} index={index} />
+            {prompts.map(({ id, ...prompt }, index) => (
+                <PromptCard
+                  key={id}
+                  prompt={prompt}
+                  index={index}
+                  model={promptSettings.model}
+                  onChange={(clip) => handleEditClip(id, clip)}
+                  onRegenerate={() => handleRegenerateClip(index)}
+                  isRegenerating={regeneratingIndex === index}
+                  disabled={regeneratingIndex !== null}
+                />
             ))}
         </div>
       )}
@@ -104,37 +299,164 @@ export const VideoPromptGenerator: React.FC<VideoPromptGeneratorProps> = ({ quot
 interface PromptCardProps {
     prompt: VideoPrompt;
     index: number;
+    model: VideoModel;
+    onChange: (prompt: VideoPrompt) => void;
+    onRegenerate: () => void;
+    isRegenerating: boolean;
+    /** A clip is being rewritten; the sequence it sees must not change underneath it, so edits wait. */
+    disabled: boolean;
 }
-const PromptCard: React.FC<PromptCardProps> = ({ prompt, index }) => {
-    const [copied, setCopied] = useState(false);
+
+type TextField = Exclude<VideoPromptField, 'setting.props'>;
+
+const editFields: { field: TextField, label: string, multiline?: boolean }[] = [
+    { field: 'sceneTitle', label: 'Scene title' },
+    { field: 'duration', label: 'Duration' },
+    { field: 'action', label: 'Action', multiline: true },
+    { field: 'dialog', label: 'Dialog', multiline: true },
+    { field: 'textOverlay.content', label: 'Text overlay' },
+    { field: 'textOverlay.style', label: 'Overlay style' },
+    { field: 'textOverlay.transition', label: 'Overlay transition' },
+    { field: 'camera.movement', label: 'Camera movement' },
+    { field: 'camera.angle', label: 'Camera angle' },
+    { field: 'camera.lighting', label: 'Lighting' },
+    { field: 'setting.location', label: 'Location' },
+    { field: 'setting.weather', label: 'Weather' },
+    { field: 'audio.music', label: 'Music' },
+    { field: 'audio.sfx', label: 'Sound effects' },
+    { field: 'mood', label: 'Mood' },
+    { field: 'visualCues', label: 'Visual cues', multiline: true },
+];
+
+const fieldValue = (prompt: VideoPrompt, field: TextField): string => {
+    const [group, key] = field.split('.');
+    return key ? (prompt[group as 'camera'] as Record<string, string>)[key] : prompt[group as 'action'];
+};
+
+const withFieldValue = (prompt: VideoPrompt, field: TextField, value: string): VideoPrompt => {
+    const [group, key] = field.split('.');
+    return (key ? { ...prompt, [group]: { ...prompt[group as 'camera'], [key]: value } } : { ...prompt, [group]: value }) as VideoPrompt;
+};
+
+const PromptCard: React.FC<PromptCardProps> = ({ prompt, index, model, onChange, onRegenerate, isRegenerating, disabled }) => {
+    const [copied, setCopied] = useState<'json' | 'text' | null>(null);
+    const [draft, setDraft] = useState<VideoPrompt | null>(null);
+    // Props are typed as one comma-separated line and only split on save, so a trailing comma survives typing.
+    const [propsText, setPropsText] = useState<string>('');
     const promptJsonString = JSON.stringify(prompt, null, 2);
+    const { hasAudio } = VIDEO_MODEL_PROFILES[model];
+
+    const handleCopy = (format: 'json' | 'text') => {
+        navigator.clipboard.writeText(format === 'json' ? promptJsonString : formatVideoPrompt(prompt, model));
+        setCopied(format);
+        setTimeout(() => setCopied(current => current === format ? null : current), 2000);
+    };
+
+    const startEditing = () => {
+        setDraft(prompt);
+        setPropsText(prompt.setting.props.join(', '));
+    };
+
+    const edited = draft && { ...draft, setting: { ...draft.setting, props: propsText.split(',').map(item => item.trim()).filter(Boolean) } };
+    const issues = edited ? videoPromptIssues(edited, model) : {};
+    const hasIssues = Object.keys(issues).length > 0;
 
-    const handleCopy = () => {
-        navigator.clipboard.writeText(promptJsonString);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
+    const handleSave = () => {
+        if (!edited || hasIssues || disabled) return;
+        onChange(edited);
+        setDraft(null);
     };
 
+    const inputClasses = (field: VideoPromptField) =>
+        `w-full px-2 py-1.5 text-sm bg-gray-700 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 ${issues[field] ? 'border-red-500' : 'border-gray-600'}`;
+
+    if (draft) {
+        return (
+            <div className="bg-gray-700/50 rounded-lg p-6 border border-indigo-500/50 space-y-4">
+                <span className="text-sm font-semibold bg-indigo-500/50 text-indigo-200 px-3 py-1 rounded-full">Editing prompt {index + 1}</span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {editFields.filter(({ field }) => hasAudio || (field !== 'dialog' && !field.startsWith('audio.'))).map(({ field, label, multiline }) => (
+                        <label key={field} className={`text-xs text-gray-400 space-y-1 ${multiline ? 'md:col-span-2' : ''}`}>
+                            <span>{label}</span>
+                            {multiline ? (
+                                <textarea rows={2} value={fieldValue(draft, field)} onChange={(e) => setDraft(withFieldValue(draft, field, e.target.value))} className={inputClasses(field)} />
+                            ) : (
+                                <input type="text" value={fieldValue(draft, field)} onChange={(e) => setDraft(withFieldValue(draft, field, e.target.value))} className={inputClasses(field)} />
+                            )}
+                            {issues[field] && <span className="block text-red-400">{issues[field]}</span>}
+                        </label>
+                    ))}
+                    <label className="text-xs text-gray-400 space-y-1 md:col-span-2">
+                        <span>Props (comma-separated)</span>
+                        <input type="text" value={propsText} onChange={(e) => setPropsText(e.target.value)} className={inputClasses('setting.props')} />
+                        {issues['setting.props'] && <span className="block text-red-400">{issues['setting.props']}</span>}
+                    </label>
+                </div>
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => setDraft(null)} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-white transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={hasIssues || disabled}
+                        title={disabled ? 'Wait for the clip being regenerated' : undefined}
+                        className="px-4 py-2 bg-teal-600 hover:bg-teal-500 rounded-lg text-sm font-semibold text-white transition-colors disabled:bg-teal-400 disabled:cursor-not-allowed"
+                    >
+                        Save clip
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     return (
-        <div className="bg-gray-700/50 rounded-lg p-6 relative border border-gray-600/50">
+        <div className={`bg-gray-700/50 rounded-lg p-6 relative border border-gray-600/50 transition-opacity ${isRegenerating ? 'opacity-60' : ''}`}>
              <div className="flex justify-between items-start mb-4">
                 <div>
                     <span className="text-sm font-semibold bg-indigo-500/50 text-indigo-200 px-3 py-1 rounded-full">Prompt {index + 1}</span>
                     <h3 className="text-xl font-bold text-gray-100 mt-2">{prompt.sceneTitle}</h3>
                 </div>
-                <button
-                    onClick={handleCopy}
-                    className="flex items-center space-x-2 px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-700 focus:ring-indigo-500"
-                    aria-label="Copy prompt JSON to clipboard"
-                >
-                    {copied ? <CheckIcon className="h-5 w-5 text-green-400" /> : <ClipboardIcon className="h-5 w-5" />}
-                    <span>{copied ? 'Copied!' : 'Copy JSON'}</span>
-                </button>
+                <div className="flex flex-wrap justify-end gap-2">
+                    <button
+                        onClick={startEditing}
+                        disabled={disabled}
+                        className="p-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label={`Edit prompt ${index + 1}`}
+                        title="Edit this clip"
+                    >
+                        <PencilIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                        onClick={onRegenerate}
+                        disabled={disabled}
+                        className="p-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label={`Regenerate prompt ${index + 1}`}
+                        title="Regenerate this clip, keeping the clips around it"
+                    >
+                        {isRegenerating ? <Spinner size="small" /> : <ArrowPathIcon className="h-5 w-5" />}
+                    </button>
+                    <button
+                        onClick={() => handleCopy('text')}
+                        className="flex items-center space-x-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-sm font-semibold text-white transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-700 focus:ring-indigo-500"
+                        aria-label={`Copy prompt for ${VIDEO_MODEL_PROFILES[model].name} to clipboard`}
+                    >
+                        {copied === 'text' ? <CheckIcon className="h-5 w-5 text-green-400" /> : <ClipboardIcon className="h-5 w-5" />}
+                        <span>{copied === 'text' ? 'Copied!' : `Copy for ${VIDEO_MODEL_PROFILES[model].name}`}</span>
+                    </button>
+                    <button
+                        onClick={() => handleCopy('json')}
+                        className="flex items-center space-x-2 px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm font-semibold text-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-700 focus:ring-indigo-500"
+                        aria-label="Copy prompt JSON to clipboard"
+                    >
+                        {copied === 'json' ? <CheckIcon className="h-5 w-5 text-green-400" /> : <ClipboardIcon className="h-5 w-5" />}
+                        <span>{copied === 'json' ? 'Copied!' : 'Copy JSON'}</span>
+                    </button>
+                </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 text-sm">
                 <PromptDetail label="Action" value={prompt.action} highlight />
-                <PromptDetail label="Dialog" value={`"${prompt.dialog}"`} highlight />
+                {prompt.dialog && <PromptDetail label="Dialog" value={`"${prompt.dialog}"`} highlight />}
                 
                 <div className="md:col-span-2">
                      <PromptDetail label="Text Overlay" value={`"${prompt.textOverlay.content}" (${prompt.textOverlay.style}, ${prompt.textOverlay.transition})`} />
@@ -0,0 +1,652 @@
+import { Type } from "@google/genai";
+import { marked } from 'marked';
+import type { EmojiDensity, PostCopy, SocialPlatform, VideoModel, VideoPrompt, VideoPromptSettings, Strategy } from '../types';
+import { parseDataUrl } from '../utils/fileUtils';
+import { DEFAULT_VIDEO_SETTINGS, MAX_CLIP_SECONDS, MAX_STORY_SCENES, PLATFORM_COPY_LIMITS, PayloadValidationError, VIDEO_MODEL_PROFILES } from './apiActions';
+import type {
+  ActionContext, ActionHandlers, ActionName, ActionPayload, ActionResponse, PromptBrandStyle, PromptProfile, StoryboardContext, StoryScene,
+} from './apiActions';
+import { ApiError } from './apiErrors';
+import type { AIProvider, ImageInput } from './aiProvider';
+import { withModelFallback, MODEL_CHAINS } from './geminiRetry';
+import type { GeminiAction } from './geminiRetry';
+import { saveToDrive } from './googleDrive';
+
+// The prompts and response schemas behind every action. Both transports run these: the
+// serverless function in api/gemini.ts (proxy mode) and the browser itself (direct mode).
+
+export const actionHandlers: ActionHandlers = {
+  generateContent: ({ type, profile }, context) => generateContent(type, profile, context),
+  generateContentBatch: ({ type, count, avoid, profile }, context) => generateContentBatch(type, count, avoid ?? [], profile, context),
+  generateImageWithQuote: ({ quote, aspectRatio, profile, brandStyle }, context) => generateImageWithQuote(quote, aspectRatio, profile, brandStyle, context),
+  editImage: ({ base64Image, prompt, maskBase64 }, context) => editImage(base64Image, prompt, maskBase64, context),
+  generateVideoPrompts: ({ quote, imageBase64, profile, settings }, context) =>
+    generateVideoPrompts(quote, imageBase64, profile, settings ?? DEFAULT_VIDEO_SETTINGS, context),
+  regenerateVideoClip: ({ quote, imageBase64, profile, settings, clips, index }, context) =>
+    regenerateVideoClip(quote, imageBase64, profile, settings ?? DEFAULT_VIDEO_SETTINGS, clips, index, context),
+  generateStoryElements: ({ topic, numScenes, style, characterGender, hasCharacterImage, profile }, context) =>
+    generateStoryElements(topic, numScenes, style, characterGender, hasCharacterImage, profile, context),
+  rewriteScene: ({ index, instruction, ...story }, context) => rewriteScene(story, index, instruction, context),
+  splitScene: ({ index, instruction, ...story }, context) => splitScene(story, index, instruction, context),
+  bridgeScenes: ({ index, ...story }, context) => bridgeScenes(story, index, context),
+  extendStory: ({ count, instruction, ...story }, context) => extendStory(story, count, instruction, context),
+  generateImageForScene: ({ visualsPrompt, aspectRatio, characterImage, brandStyle }, context) =>
+    generateImageForScene(visualsPrompt, aspectRatio, characterImage, brandStyle, context),
+  generatePostCopy: ({ text, platform, emojiDensity, imageBase64, profile }, context) =>
+    generatePostCopy(text, platform, emojiDensity, imageBase64, profile, context),
+  getAutomationStrategies: (_payload, context) => getAutomationStrategies(context),
+  saveToDrive: ({ accessToken, fileData, fileName, folderId, folderName }, context) =>
+    saveToDrive(accessToken, fileData, fileName, folderId, folderName, context.drive),
+};
+
+/** Runs an already-validated action. */
+export const runAction = <A extends ActionName>(action: A, payload: ActionPayload<A>, context: ActionContext): Promise<ActionResponse<A>> =>
+  actionHandlers[action](payload, context);
+
+// Runs a provider call through the action's model chain with retries, recording which model answered.
+const callModel = async <T>(
+  action: GeminiAction,
+  context: ActionContext,
+  request: (provider: AIProvider, model: string) => Promise<T>,
+): Promise<T> => {
+  const { result, model } = await withModelFallback(MODEL_CHAINS[action], model => request(context.provider, model), context.retryOptions);
+  context.modelsUsed.push(model);
+  return result;
+};
+
+// Without a brand profile the app writes for its original personal-finance audience.
+const DEFAULT_TOPIC = 'personal finance';
+const DEFAULT_MOOD = 'optimistic and inspiring';
+
+const topicOf = (profile?: PromptProfile) => profile?.topicDomain.trim() || DEFAULT_TOPIC;
+
+// The brand's audience, voice and restrictions as a prompt section; empty when there is no profile.
+const brandGuidelines = (profile?: PromptProfile): string => {
+    if (!profile) return '';
+    const examples = profile.examplePosts.map(post => post.trim()).filter(Boolean);
+    const lines = [
+      `Topic domain: ${topicOf(profile)}.`,
+      profile.audience.trim() && `Target audience: ${profile.audience.trim()}.`,
+      profile.readingLevel.trim() && `Reading level: ${profile.readingLevel.trim()}.`,
+      profile.tone.trim() && `Tone of voice: ${profile.tone.trim()}.`,
+      profile.bannedWords.length > 0 && `Never use these words or phrases: ${profile.bannedWords.map(word => `"${word}"`).join(', ')}.`,
+      examples.length > 0 && `Example posts from this brand, to match their voice (do not copy them):\n${examples.map(post => `- ${post}`).join('\n')}`,
+    ].filter(Boolean);
+    return `\n\nBrand guidelines (${profile.name.trim() || 'brand profile'}):\n${lines.join('\n')}`;
+};
+
+// The brand kit's look as an image prompt sentence; empty when there is no kit.
+const visualStyleGuidelines = (brandStyle?: PromptBrandStyle): string => {
+    if (!brandStyle) return '';
+    const lines = [
+      brandStyle.palette.length > 0 && `Use a color palette built around ${brandStyle.palette.join(', ')}.`,
+      brandStyle.keywords.length > 0 && `Visual style: ${brandStyle.keywords.join(', ')}.`,
+    ].filter(Boolean);
+    return lines.length ? ` ${lines.join(' ')}` : '';
+};
+
+const generateContent = async (type: 'quote' | 'tip' = 'quote', profile: PromptProfile | undefined, context: ActionContext): Promise<string> => {
+    const topic = topicOf(profile);
+    const prompt = (type === 'quote'
+      ? `Generate a short, motivational quote about ${topic}. It should be inspiring, concise, and easy to understand. Do not include author attribution.`
+      : `Generate a short, actionable ${topic} tip of the day. It should be practical, easy to understand, and provide a clear piece of advice. Do not include author attribution.`)
+      + brandGuidelines(profile);
+
+
+    const text = await callModel('generateContent', context, (ai, model) => ai.generateText({ model, prompt }));
+    return text.replace(/"/g, '');
+};
+
+const generateContentBatch = async (
+  type: 'quote' | 'tip' = 'quote', count: number, avoid: string[], profile: PromptProfile | undefined, context: ActionContext
+): Promise<string[]> => {
+    const topic = topicOf(profile);
+    const description = type === 'quote'
+      ? `short, motivational quotes about ${topic}. Each should be inspiring, concise, and easy to understand`
+      : `short, actionable ${topic} tips of the day. Each should be practical, easy to understand, and provide a clear piece of advice`;
+    const avoidList = avoid.length
+      ? `\n\nThese have already been posted. Do not repeat them or closely paraphrase them:\n${avoid.map(text => `- ${text}`).join('\n')}`
+      : '';
+    const prompt = `Generate ${count} ${description}. Do not include author attribution.
+
+Every item must make a different point in different words; avoid near-duplicates within the list.${brandGuidelines(profile)}${avoidList}
+
+Return your response as a JSON array of exactly ${count} strings.`;
+
+    const items = await callModel('generateContentBatch', context, (ai, model) => ai.generateJson<string[]>({
+      model,
+      prompt,
+      schema: {
+        type: Type.ARRAY,
+        minItems: String(count),
+        maxItems: String(count),
+        items: { type: Type.STRING },
+      },
+    }));
+    return items.map(item => item.replace(/"/g, '').trim()).filter(Boolean);
+};
+
+// Only the clean background comes from the model; the browser typesets the quote onto it
+// (src/utils/textOverlay.ts), which keeps the spelling exact and the result reproducible.
+const generateImageWithQuote = async (
+  quote: string,
+  aspectRatio: string = '1:1',
+  profile: PromptProfile | undefined,
+  brandStyle: PromptBrandStyle | undefined,
+  context: ActionContext,
+): Promise<{ withoutOverlay: string }> => {
+    const mood = profile?.tone.trim() || DEFAULT_MOOD;
+    const audience = profile?.audience.trim() ? ` It should appeal to ${profile.audience.trim()}.` : '';
+    const baseImage = await callModel('generateImageWithQuote', context, (ai, model) => ai.generateImage({
+      model,
+      aspectRatio,
+      prompt: `Generate a high-quality, visually appealing stock photo with an aspect ratio of ${aspectRatio} that represents the theme of: "${quote}" in the context of ${topicOf(profile)}. The mood of the image should be ${mood}.${audience}${visualStyleGuidelines(brandStyle)} Leave a calm, uncluttered area where text can be placed later. CRITICALLY IMPORTANT: Do NOT include any text, letters, or words on the image itself.`,
+    }));
+
+    return { withoutOverlay: baseImage.dataUrl };
+};
+
+// The browser composites the result back through the mask, so this only has to keep the model focused on the region.
+const MASK_INSTRUCTIONS = 'The second image is a black-and-white mask of the first. Apply the edit only to the area that is white in the mask, keep everything in the black area exactly as it is, and return the full image at the same size and framing.';
+
+const editImage = async (base64Image: string, prompt: string, maskBase64: string | undefined, context: ActionContext): Promise<string> => {
+    const mask = maskBase64 ? parseDataUrl(maskBase64) : undefined;
+    const editedImage = await callModel('editImage', context, (ai, model) => ai.editImage({
+        model,
+        image: parseDataUrl(base64Image),
+        prompt: mask ? `${prompt}\n\n${MASK_INSTRUCTIONS}` : prompt,
+        mask,
+    }));
+    return editedImage.dataUrl;
+};
+
+
+// How to write for each target model. The JSON fields stay the same; the guidance decides what goes in them.
+const VIDEO_MODEL_GUIDANCE: Record<VideoModel, string> = {
+  veo: `Write for Google's VEO and adhere to the best practices from the VEO 3 Prompt Guide. Be highly specific about camera movement, angles, lighting, setting, props, actions, mood, dialog, and visual cues. VEO generates synchronized sound, so give each clip one concise line of spoken dialog and describe the music and sound effects precisely.`,
+  runway: `Write for Runway-style models (Gen-3 and later). Lead each clip with its camera movement, then describe the scene and the subject's action in plain, concrete visual language. Describe one continuous shot per clip with no cuts, and say what should happen rather than what should not. These models render silent clips, so leave "dialog" as an empty string and use the audio fields only as notes for the editor.`,
+  kling: `Write for Kling-style models. Describe each action as subject, then motion, then scene, followed by camera language (movement and angle) and lighting and atmosphere. Keep the motion physically plausible and say how fast it happens. These models render silent clips, so leave "dialog" as an empty string and use the audio fields only as notes for the editor.`,
+  generic: `Write model-agnostic prompts that any text-to-video model can follow: plain descriptive sentences, one continuous shot per clip, no model-specific syntax. Be specific about camera movement, angles, lighting, setting, props, actions and mood.`,
+};
+
+// Clip lengths the target model can render; any whole number of seconds for models without fixed lengths.
+const snapClipSeconds = (seconds: number, model: VideoModel): number => {
+    const allowed = VIDEO_MODEL_PROFILES[model].clipDurations;
+    if (!allowed) return Math.min(MAX_CLIP_SECONDS, Math.max(1, Math.round(seconds)));
+    return allowed.reduce((best, option) => (Math.abs(option - seconds) < Math.abs(best - seconds) ? option : best));
+};
+
+// The JSON layout of one clip, spelled out in the prompt next to the response schema.
+const videoPromptExample = (clipSeconds: number, hasAudio: boolean) => `{
+  "sceneTitle": "A descriptive title for the scene",
+  "duration": "${clipSeconds}s",
+  "dialog": "${hasAudio ? 'A concise and necessary line of spoken dialog for the scene.' : ''}",
+  "camera": {
+    "movement": "e.g., slow dolly-in, crane shot up",
+    "angle": "e.g., eye-level, low-angle shot",
+    "lighting": "e.g., golden hour sunlight, dramatic neon glow"
+  },
+  "setting": {
+    "location": "e.g., modern balcony, misty forest",
+    "props": ["list", "of", "props"],
+    "weather": "e.g., clear and warm, light rain"
+  },
+  "action": "A clear description of the primary action in the scene.",
+  "visualCues": "e.g., lens flare, cinematic depth of field, slow motion",
+  "textOverlay": {
+    "content": "A part of the quote or related text.",
+    "style": "e.g., elegant cursive, bold sans-serif",
+    "transition": "e.g., fade-in, slide from left"
+  },
+  "mood": "The emotional tone of the scene.",
+  "audio": {
+    "music": "A description of the background music.",
+    "sfx": "Key sound effects."
+  }
+}`;
+
+const videoPromptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sceneTitle: { type: Type.STRING },
+    duration: { type: Type.STRING },
+    dialog: { type: Type.STRING },
+    camera: {
+      type: Type.OBJECT,
+      properties: {
+        movement: { type: Type.STRING },
+        angle: { type: Type.STRING },
+        lighting: { type: Type.STRING },
+      },
+      required: ['movement', 'angle', 'lighting'],
+    },
+    setting: {
+      type: Type.OBJECT,
+      properties: {
+        location: { type: Type.STRING },
+        props: { type: Type.ARRAY, items: { type: Type.STRING } },
+        weather: { type: Type.STRING },
+      },
+      required: ['location', 'props', 'weather'],
+    },
+    action: { type: Type.STRING },
+    visualCues: { type: Type.STRING },
+    textOverlay: {
+      type: Type.OBJECT,
+      properties: {
+        content: { type: Type.STRING },
+        style: { type: Type.STRING },
+        transition: { type: Type.STRING },
+      },
+      required: ['content', 'style', 'transition'],
+    },
+    mood: { type: Type.STRING },
+    audio: {
+      type: Type.OBJECT,
+      properties: {
+        music: { type: Type.STRING },
+        sfx: { type: Type.STRING },
+      },
+      required: ['music', 'sfx'],
+    },
+  },
+  required: ['sceneTitle', 'duration', 'dialog', 'camera', 'setting', 'action', 'visualCues', 'textOverlay', 'mood', 'audio'],
+};
+
+// The duration is display text; keep it to lengths the target model can actually render.
+const fitClip = (clip: VideoPrompt, fallbackSeconds: number, videoModel: VideoModel): VideoPrompt => ({
+    ...clip,
+    duration: `${snapClipSeconds(parseFloat(clip.duration) || fallbackSeconds, videoModel)}s`,
+    dialog: VIDEO_MODEL_PROFILES[videoModel].hasAudio ? clip.dialog : '',
+});
+
+const generateVideoPrompts = async (
+  quote: string, imageBase64: string | undefined, profile: PromptProfile | undefined, settings: VideoPromptSettings, context: ActionContext
+): Promise<VideoPrompt[]> => {
+    const { clipCount, model: videoModel, targetSeconds } = settings;
+    const clipSeconds = snapClipSeconds(settings.clipSeconds, videoModel);
+    const modelProfile = VIDEO_MODEL_PROFILES[videoModel];
+    const sequence = clipCount === 1 ? 'a single detailed and concise action prompt' : `a sequence of ${clipCount} detailed and concise action prompts`;
+    const allowedDurations = modelProfile.clipDurations?.map(seconds => `${seconds}s`).join(', ');
+    const timing = targetSeconds
+      ? `The whole video should run about ${targetSeconds} seconds. Clips default to ${clipSeconds} seconds, but vary their lengths${allowedDurations ? ` (choosing from ${allowedDurations})` : ''} so that together they come as close to ${targetSeconds} seconds as possible.`
+      : `Each clip is ${clipSeconds} seconds long.`;
+    const continuity = clipCount === 1 ? 'The clip should tell a complete moment on its own.' : 'Each prompt builds upon the previous one, creating a continuous story.';
+    const images: ImageInput[] = [];
+    let instruction = '';
+
+    if (imageBase64) {
+      images.push(parseDataUrl(imageBase64));
+      instruction = `You are an expert prompt engineer for generative video models (${modelProfile.name}). Your task is to create ${sequence}.
+
+First, analyze the provided image. Then, create the video prompts as a narrative continuation of the scene depicted in the image, using the theme from the provided quote. ${continuity} ${timing} The final video should be inspiring and visually stunning.
+
+The quote is: "${quote}"
+
+${VIDEO_MODEL_GUIDANCE[videoModel]}
+`;
+    } else {
+      instruction = `You are an expert prompt engineer for generative video models (${modelProfile.name}). Your task is to create ${sequence} based on a given motivational quote about ${topicOf(profile)}. ${continuity} ${timing} The final video should be inspiring and visually stunning.
+
+The quote is: "${quote}"
+
+${VIDEO_MODEL_GUIDANCE[videoModel]}
+`;
+    }
+
+    const prompt = `${instruction}${brandGuidelines(profile)}
+Return your response as a valid JSON array containing ${clipCount} object${clipCount === 1 ? '' : 's'}. Each object must follow this exact structure:
+${videoPromptExample(clipSeconds, modelProfile.hasAudio)}
+Ensure the 'textOverlay.content' for the ${clipCount === 1 ? 'prompt forms' : `${clipCount} prompts, when combined, forms`} the full original quote or a cohesive message derived from it. The entire output must be a single JSON array.`;
+
+    const prompts = await callModel('generateVideoPrompts', context, (ai, model) => ai.generateJson<VideoPrompt[]>({
+      model,
+      prompt,
+      images,
+      schema: {
+        type: Type.ARRAY,
+        minItems: String(clipCount),
+        maxItems: String(clipCount),
+        items: videoPromptSchema,
+      },
+    }));
+
+    return prompts.slice(0, clipCount).map(clip => fitClip(clip, clipSeconds, videoModel));
+};
+
+const regenerateVideoClip = async (
+  quote: string, imageBase64: string | undefined, profile: PromptProfile | undefined, settings: VideoPromptSettings,
+  clips: VideoPrompt[], index: number, context: ActionContext
+): Promise<VideoPrompt> => {
+    if (index >= clips.length) {
+      throw new PayloadValidationError('regenerateVideoClip', [{ field: 'index', message: `must be less than the number of clips (${clips.length})` }]);
+    }
+    const videoModel = settings.model;
+    const modelProfile = VIDEO_MODEL_PROFILES[videoModel];
+    const clipSeconds = snapClipSeconds(parseFloat(clips[index].duration) || settings.clipSeconds, videoModel);
+    const images: ImageInput[] = imageBase64 ? [parseDataUrl(imageBase64)] : [];
+    const sequence = clips.map((clip, position) =>
+      `Clip ${position + 1}${position === index ? ' (TO REPLACE)' : ''}:\n${JSON.stringify(clip, null, 2)}`).join('\n\n');
+    const neighbours = [
+      index > 0 && `pick up exactly where clip ${index} leaves off`,
+      index < clips.length - 1 && `lead naturally into clip ${index + 2}, which stays as it is`,
+    ].filter(Boolean).join(' and ');
+
+    const prompt = `You are an expert prompt engineer for generative video models (${modelProfile.name}). Below is a sequence of ${clips.length} video clip prompts based on a motivational quote about ${topicOf(profile)}. Write a fresh replacement for clip ${index + 1}, taking a different creative angle than the current version.
+${imageBase64 ? '\nThe provided image is the scene the sequence continues from.\n' : ''}
+The quote is: "${quote}"
+
+${sequence}
+
+The new clip must ${neighbours || 'tell a complete moment on its own'}, keeping the same characters, setting continuity, visual style and audio palette as the rest of the sequence. Its 'textOverlay.content' must carry the same part of the quote as the clip it replaces, so the overlays still add up across the sequence. It runs ${clipSeconds} seconds.
+
+${VIDEO_MODEL_GUIDANCE[videoModel]}${brandGuidelines(profile)}
+
+Return only the new clip as a single JSON object with this exact structure:
+${videoPromptExample(clipSeconds, modelProfile.hasAudio)}`;
+
+    const clip = await callModel('regenerateVideoClip', context, (ai, model) => ai.generateJson<VideoPrompt>({
+      model,
+      prompt,
+      images,
+      schema: videoPromptSchema,
+    }));
+
+    return fitClip(clip, clipSeconds, videoModel);
+};
+
+
+// The story idea, style and main character, shared by the storyboard prompt and every scene operation.
+const storyDetails = (topic: string, style: string, characterGender: 'male' | 'female', hasCharacterImage: boolean) => {
+    const characterInfo = `The main character is ${characterGender}. ${hasCharacterImage ? 'The character should be consistent with the user-provided reference image.' : ''}`;
+    const styleInfo = style ? `*   **Story Style/Genre:** ${style}` : '*   **Story Style/Genre:** To be determined by the AI based on the story idea.';
+    return `**Core Details:**
+*   **Story Idea:** "${topic}"
+${styleInfo}
+*   **Main Character:** ${characterInfo}`;
+};
+
+const SCENE_FIELDS = `*   **description**: A one-sentence summary of what happens in this scene.
+*   **visuals**: A detailed prompt for an image generator. Describe the setting, camera work (movement, angle), lighting, and key actions. Be vivid and specific. If a character reference is used, ensure the description matches.
+*   **dialogue**: The dialogue or narration for this scene. Use "N/A" if there is no dialogue.
+*   **sound**: Describe the background music, foley, and any important sound effects.`;
+
+const storySceneSchema = {
+  type: Type.OBJECT,
+  properties: {
+    description: { type: Type.STRING },
+    visuals: { type: Type.STRING },
+    dialogue: { type: Type.STRING },
+    sound: { type: Type.STRING },
+  },
+  required: ['description', 'visuals', 'dialogue', 'sound']
+};
+
+const generateStoryElements = async (
+  topic: string, numScenes: number, style: string, characterGender: 'male' | 'female', hasCharacterImage: boolean,
+  profile: PromptProfile | undefined, context: ActionContext
+) => {
+    const prompt = `You are an expert screenwriter and cinematic storyteller. Your task is to generate a complete cinematic storyboard.
+
+${storyDetails(topic, style, characterGender, hasCharacterImage)}
+
+**Your Task:**
+Generate a response as a single, valid JSON object with two top-level keys: "thumbnailPrompt" and "scenes".
+1.  **thumbnailPrompt**: A string containing a detailed, vivid prompt for generating a movie-poster-style thumbnail image for this story. It should capture the essence of the story's style and topic.
+2.  **scenes**: An array of exactly **${numScenes}** scene objects that tell a complete, cohesive story from beginning to end.
+
+Each scene object in the 'scenes' array must have the following structure:
+${SCENE_FIELDS}
+
+The story must be compelling, logical, and respect all the core details provided.${brandGuidelines(profile)}`;
+    const result = await callModel('generateStoryElements', context, (ai, model) => ai.generateJson<{ thumbnailPrompt: string, scenes: StoryScene[] }>({
+      model,
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          thumbnailPrompt: { type: Type.STRING },
+          scenes: {
+            type: Type.ARRAY,
+            minItems: String(numScenes),
+            maxItems: String(numScenes),
+            items: storySceneSchema,
+          }
+        },
+        required: ['thumbnailPrompt', 'scenes']
+      },
+    }));
+    return { thumbnailPrompt: result.thumbnailPrompt, scenes: result.scenes };
+};
+
+type SceneAction = 'rewriteScene' | 'splitScene' | 'bridgeScenes' | 'extendStory';
+
+const requireScene = (action: SceneAction, scenes: StoryScene[], index: number) => {
+    if (index >= scenes.length) {
+      throw new PayloadValidationError(action, [{ field: 'index', message: `must be less than the number of scenes (${scenes.length})` }]);
+    }
+};
+
+// Scene operations that add scenes must leave a board the next request can still send as context.
+const requireRoom = (action: SceneAction, scenes: StoryScene[], added: number, field: string) => {
+    if (scenes.length + added > MAX_STORY_SCENES) {
+      throw new PayloadValidationError(action, [{ field, message: `must leave room for the new scenes within the ${MAX_STORY_SCENES}-scene limit` }]);
+    }
+};
+
+// Runs a scene operation against the whole board, so whatever the model writes keeps the
+// story's character, tone and continuity. Resolves with exactly `count` new scenes.
+const writeScenes = async (
+  action: SceneAction, story: StoryboardContext, task: string, count: number, context: ActionContext
+): Promise<StoryScene[]> => {
+    const { topic, style, characterGender, hasCharacterImage, profile, scenes } = story;
+    const board = scenes.map((scene, index) => `Scene ${index + 1}: ${JSON.stringify(scene)}`).join('\n');
+    const prompt = `You are an expert screenwriter and cinematic storyteller, revising an existing cinematic storyboard.
+
+${storyDetails(topic, style, characterGender, hasCharacterImage)}
+
+**The storyboard so far (${scenes.length} scene${scenes.length === 1 ? '' : 's'}):**
+${board}
+
+**Your Task:**
+${task}
+
+Keep the main character, tone, visual style and sound palette consistent with the scenes around the new material, and keep the story's continuity intact: nothing may contradict what happens in the other scenes. Do not change or repeat any other scene.
+
+Return a single, valid JSON object with one key, "scenes": an array of exactly **${count}** new scene object${count === 1 ? '' : 's'}, in story order, each with the following structure:
+${SCENE_FIELDS}${brandGuidelines(profile)}`;
+
+    const result = await callModel(action, context, (ai, model) => ai.generateJson<{ scenes: StoryScene[] }>({
+      model,
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          scenes: { type: Type.ARRAY, minItems: String(count), maxItems: String(count), items: storySceneSchema },
+        },
+        required: ['scenes'],
+      },
+    }));
+    if (result.scenes.length < count) {
+      throw new ApiError('INVALID_JSON', undefined, { details: `Expected ${count} scene(s), got ${result.scenes.length}.` });
+    }
+    return result.scenes.slice(0, count);
+};
+
+const rewriteScene = async (story: StoryboardContext, index: number, instruction: string, context: ActionContext): Promise<StoryScene> => {
+    requireScene('rewriteScene', story.scenes, index);
+    const task = `Rewrite scene ${index + 1} following this instruction: "${instruction}". It must still connect ${index > 0 ? `from scene ${index}` : 'from the opening'} ${index < story.scenes.length - 1 ? `to scene ${index + 2}` : 'to the ending'}.`;
+    const [scene] = await writeScenes('rewriteScene', story, task, 1, context);
+    return scene;
+};
+
+const splitScene = async (story: StoryboardContext, index: number, instruction: string | undefined, context: ActionContext): Promise<StoryScene[]> => {
+    requireScene('splitScene', story.scenes, index);
+    requireRoom('splitScene', story.scenes, 1, 'scenes');
+    const task = `Split scene ${index + 1} into two consecutive scenes that together cover the same story beat in more detail: the first ${index > 0 ? `picks up where scene ${index} leaves off` : 'opens the story'}, the second leads into ${index < story.scenes.length - 1 ? `scene ${index + 2}` : 'the ending'}.${instruction ? ` Follow this instruction: "${instruction}".` : ''}`;
+    return writeScenes('splitScene', story, task, 2, context);
+};
+
+const bridgeScenes = async (story: StoryboardContext, index: number, context: ActionContext): Promise<StoryScene> => {
+    if (index >= story.scenes.length - 1) {
+      throw new PayloadValidationError('bridgeScenes', [{ field: 'index', message: 'must point at a scene before the last one' }]);
+    }
+    requireRoom('bridgeScenes', story.scenes, 1, 'scenes');
+    const task = `Write one new scene to go between scene ${index + 1} and scene ${index + 2}. It must bridge them: start where scene ${index + 1} ends, and set up scene ${index + 2} so that the cut between them feels natural.`;
+    const [scene] = await writeScenes('bridgeScenes', story, task, 1, context);
+    return scene;
+};
+
+const extendStory = async (story: StoryboardContext, count: number, instruction: string | undefined, context: ActionContext): Promise<StoryScene[]> => {
+    requireRoom('extendStory', story.scenes, count, 'count');
+    const task = `Extend the story by ${count} new scene${count === 1 ? '' : 's'} after scene ${story.scenes.length}, continuing from the current ending and bringing the story to a satisfying new conclusion.${instruction ? ` Follow this instruction: "${instruction}".` : ''}`;
+    return writeScenes('extendStory', story, task, count, context);
+};
+
+
+const generateImageForScene = async (
+  visualsPrompt: string,
+  aspectRatio: string,
+  characterImage: string | null | undefined,
+  brandStyle: PromptBrandStyle | undefined,
+  context: ActionContext,
+): Promise<string> => {
+    const images: ImageInput[] = [];
+    let textPrompt = `Generate a high-quality, cinematic image with an aspect ratio of ${aspectRatio}. The scene should be: "${visualsPrompt}".${visualStyleGuidelines(brandStyle)}`;
+
+    if (characterImage) {
+      images.push(parseDataUrl(characterImage));
+      textPrompt += " The main character in the generated image should be consistent with the reference image provided.";
+    }
+    
+    const sceneImage = await callModel('generateImageForScene', context, (ai, model) => ai.generateImage({
+      model,
+      prompt: textPrompt,
+      images,
+      aspectRatio,
+    }));
+
+    return sceneImage.dataUrl;
+};
+
+const CAPTION_VARIANTS = 3;
+const MAX_ALT_TEXT_LENGTH = 250;
+
+const EMOJI_GUIDANCE: Record<EmojiDensity, string> = {
+  none: 'Do not use any emojis.',
+  light: 'Use at most one or two emojis per caption, only where they add meaning.',
+  heavy: 'Use emojis generously throughout each caption for an energetic, playful feel.',
+};
+
+// Models sometimes overshoot a hard limit; cut at the last whole word and mark the cut.
+const clipText = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trimEnd()}…`;
+};
+
+// "#", letters, digits and underscores only, without repeats, and no more than the platform allows.
+const cleanHashtags = (hashtags: string[], max: number): string[] => {
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  for (const hashtag of hashtags) {
+    const tag = hashtag.replace(/[^\p{L}\p{N}_]/gu, '');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    cleaned.push(`#${tag}`);
+  }
+  return cleaned.slice(0, max);
+};
+
+const generatePostCopy = async (
+  text: string,
+  platform: SocialPlatform,
+  emojiDensity: EmojiDensity,
+  imageBase64: string | undefined,
+  profile: PromptProfile | undefined,
+  context: ActionContext,
+): Promise<PostCopy> => {
+    const limits = PLATFORM_COPY_LIMITS[platform];
+    const maxCtaLength = Math.floor(limits.maxCaptionLength / 4);
+    const images: ImageInput[] = imageBase64 ? [parseDataUrl(imageBase64)] : [];
+    const imageInfo = imageBase64
+      ? 'The finished image is attached.'
+      : 'The image is a photo with this text overlaid on it.';
+    const prompt = `You are a social media copywriter. Write the post copy for a ${limits.name} post about ${topicOf(profile)}. ${imageInfo}
+
+The text on the image is: "${text}"
+
+Return a JSON object with:
+*   **captions**: exactly ${CAPTION_VARIANTS} alternative captions, each with a different hook or angle. Each caption is posted followed by the call to action and the hashtags, and the three together must fit in ${limits.maxCaptionLength} characters, so leave room for them. Captions must not contain hashtags. Match ${limits.name}'s conventions for length and line breaks. ${EMOJI_GUIDANCE[emojiDensity]}
+*   **hashtags**: up to ${limits.maxHashtags} relevant hashtags, mixing broad and niche tags. Each starts with "#" and contains no spaces.
+*   **cta**: one short call to action that suits ${limits.name} (for example to save, share, comment or follow), at most ${maxCtaLength} characters.
+*   **altText**: accessibility alt text for the image, at most ${MAX_ALT_TEXT_LENGTH} characters. Describe what is visible, including the text on the image, for someone using a screen reader. Do not start with "Image of".${brandGuidelines(profile)}`;
+    const result = await callModel('generatePostCopy', context, (ai, model) => ai.generateJson<Omit<PostCopy, 'platform' | 'emojiDensity'>>({
+      model,
+      prompt,
+      images,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          captions: {
+            type: Type.ARRAY,
+            minItems: String(CAPTION_VARIANTS),
+            maxItems: String(CAPTION_VARIANTS),
+            items: { type: Type.STRING },
+          },
+          hashtags: { type: Type.ARRAY, maxItems: String(limits.maxHashtags), items: { type: Type.STRING } },
+          cta: { type: Type.STRING },
+          altText: { type: Type.STRING },
+        },
+        required: ['captions', 'hashtags', 'cta', 'altText'],
+      },
+    }));
+    // A caption is copied together with the CTA and hashtags (see composePost), so they come out of
+    // its budget; hashtags are dropped from the end while they would leave it less than half the post.
+    const cta = clipText(result.cta.trim(), maxCtaLength);
+    const hashtags = cleanHashtags(result.hashtags, limits.maxHashtags);
+    const captionBudget = () =>
+      limits.maxCaptionLength - [cta, hashtags.join(' ')].filter(Boolean).reduce((length, part) => length + part.length + 2, 0);
+    while (hashtags.length > 0 && captionBudget() < limits.maxCaptionLength / 2) hashtags.pop();
+    return {
+      platform,
+      emojiDensity,
+      captions: result.captions.map(caption => clipText(caption.trim(), captionBudget())).filter(Boolean),
+      hashtags,
+      cta,
+      altText: clipText(result.altText.trim(), MAX_ALT_TEXT_LENGTH),
+    };
+};
+
+const getAutomationStrategies = async (context: ActionContext) => {
+    const prompt = `You are an expert in content creation workflows. Generate a list of 4 creative automation strategies for a 'Motivational Content Automator' application. The application already generates quotes, creates images with text overlays, edits images, and generates video prompts.
+
+For each strategy, provide a 'title' and a 'description'. The description should be a concise explanation of the strategy, formatted as markdown (e.g., use bullet points with *).
+
+Return your response as a valid JSON array of objects. Each object must follow this exact structure:
+{
+  "title": "A short, catchy title for the strategy",
+  "description": "A markdown-formatted description of the strategy."
+}`;
+    const strategies = await callModel('getAutomationStrategies', context, (ai, model) => ai.generateJson<Strategy[]>({
+      model,
+      prompt,
+      schema: {
+        type: Type.ARRAY,
+        minItems: '4',
+        maxItems: '4',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+          },
+          required: ['title', 'description'],
+        },
+      },
+    }));
+    return strategies.map(strategy => ({
+      ...strategy,
+      description: marked(strategy.description) as string,
+    }));
+};
@@ -0,0 +1,68 @@
+import type { Schema as ResponseSchema } from "@google/genai";
+import { ApiError } from './apiErrors';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+// The model backend behind every generation action. Prompt-building stays with the callers;
+// a provider only knows how to turn a prompt (plus optional images) into text, JSON or an image.
+
+export type AIProviderName = 'gemini' | 'mock';
+
+export interface ImageInput {
+  mimeType: string;
+  data: string;
+}
+
+export interface ImageOutput extends ImageInput {
+  /** The same image as a "data:<mime>;base64,..." URL, ready for an <img> tag. */
+  dataUrl: string;
+}
+
+export interface TextRequest {
+  model: string;
+  prompt: string;
+  images?: ImageInput[];
+}
+
+export interface JsonRequest extends TextRequest {
+  /** Shape the response must follow. Array schemas may pin their length with minItems/maxItems. */
+  schema: ResponseSchema;
+}
+
+export interface ImageRequest extends TextRequest {
+  aspectRatio?: string;
+}
+
+export interface EditImageRequest {
+  model: string;
+  image: ImageInput;
+  prompt: string;
+  /** Black-and-white mask of `image`; white marks the region the prompt should change. */
+  mask?: ImageInput;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  generateText(request: TextRequest): Promise<string>;
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  /** Text-to-image; any `images` are passed along as references (e.g. a character sheet). */
+  generateImage(request: ImageRequest): Promise<ImageOutput>;
+  editImage(request: EditImageRequest): Promise<ImageOutput>;
+}
+
+/**
+ * Picks the provider named by AI_PROVIDER ("gemini" by default, or "mock" for offline work).
+ * The Gemini provider needs API_KEY; GEMINI_TIMEOUT_MS optionally bounds each call.
+ */
+export const createAIProvider = (env: Record<string, string | undefined>): AIProvider => {
+  const name = (env.AI_PROVIDER || 'gemini').toLowerCase();
+
+  if (name === 'mock') return createMockProvider();
+  if (name !== 'gemini') {
+    throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}". Use "gemini" or "mock".`);
+  }
+  if (!env.API_KEY) {
+    throw new ApiError('UNAUTHORIZED', "API_KEY environment variable not set. Set it, or use AI_PROVIDER=mock to run offline.");
+  }
+  return createGeminiProvider(env.API_KEY, { timeoutMs: Number(env.GEMINI_TIMEOUT_MS) || undefined });
+};
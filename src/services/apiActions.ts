@@ -0,0 +1,284 @@
+import type { AspectRatio, EmojiDensity, PostCopy, SocialPlatform, VideoModel, VideoPrompt, VideoPromptSettings, SceneCard, Strategy } from '../types';
+import { string, number, boolean, oneOf, dataUrl, optional, array, object, validate, formatIssues } from '../utils/validation';
+import type { Infer, FieldIssue, ValidationResult } from '../utils/validation';
+import { ApiError } from './apiErrors';
+import type { AIProvider } from './aiProvider';
+import type { RetryOptions } from './geminiRetry';
+import type { DriveOptions } from './googleDrive';
+
+// Single source of truth for the /api/gemini contract. The serverless function validates
+// incoming requests against these schemas and the browser validates before sending, so both
+// sides agree on every action name, its payload and the shape of its response.
+
+export const ASPECT_RATIOS: readonly AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+export const SOCIAL_PLATFORMS: readonly SocialPlatform[] = ['instagram', 'tiktok', 'youtube', 'pinterest', 'linkedin', 'x', 'facebook'];
+
+export const EMOJI_DENSITIES: readonly EmojiDensity[] = ['none', 'light', 'heavy'];
+
+/** Post length (caption, call to action and hashtags together) and hashtag count per platform; hashtag counts stay within what each platform allows or rewards. */
+export const PLATFORM_COPY_LIMITS: Record<SocialPlatform, { name: string, maxCaptionLength: number, maxHashtags: number }> = {
+  instagram: { name: 'Instagram', maxCaptionLength: 2200, maxHashtags: 30 },
+  tiktok: { name: 'TikTok', maxCaptionLength: 2200, maxHashtags: 5 },
+  youtube: { name: 'YouTube', maxCaptionLength: 5000, maxHashtags: 15 },
+  pinterest: { name: 'Pinterest', maxCaptionLength: 500, maxHashtags: 20 },
+  linkedin: { name: 'LinkedIn', maxCaptionLength: 3000, maxHashtags: 5 },
+  x: { name: 'X', maxCaptionLength: 280, maxHashtags: 2 },
+  facebook: { name: 'Facebook', maxCaptionLength: 2000, maxHashtags: 3 },
+};
+
+export const VIDEO_MODELS: readonly VideoModel[] = ['veo', 'runway', 'kling', 'generic'];
+
+export const MAX_VIDEO_CLIPS = 12;
+export const MAX_CLIP_SECONDS = 60;
+
+/** Clip lengths each model can render (null: any length up to MAX_CLIP_SECONDS) and whether it generates sound. */
+export const VIDEO_MODEL_PROFILES: Record<VideoModel, { name: string, clipDurations: number[] | null, hasAudio: boolean }> = {
+  veo: { name: 'Google VEO', clipDurations: [4, 6, 8], hasAudio: true },
+  runway: { name: 'Runway-style', clipDurations: [5, 10], hasAudio: false },
+  kling: { name: 'Kling-style', clipDurations: [5, 10], hasAudio: false },
+  generic: { name: 'Generic', clipDurations: null, hasAudio: true },
+};
+
+export const MAX_STORY_SCENES = 30;
+/** Longest text a video prompt field may hold, and most props one clip may list. */
+export const MAX_CLIP_TEXT_LENGTH = 2000;
+export const MAX_CLIP_PROPS = 50;
+/** Longest existing post a batch request may list as one not to repeat. */
+export const MAX_AVOID_TEXT_LENGTH = 1000;
+/** Most scenes one "extend the ending" request may add. */
+export const MAX_EXTEND_SCENES = 10;
+
+/** Longest text each brand profile field may hold, and most entries and longest entry of its lists. */
+export const BRAND_PROFILE_LIMITS = {
+  name: 100,
+  topicDomain: 200,
+  audience: 500,
+  readingLevel: 100,
+  tone: 200,
+  bannedWords: { maxItems: 100, maxLength: 100 },
+  examplePosts: { maxItems: 10, maxLength: 1000 },
+} as const;
+
+/** The original sequence: three 8-second VEO clips. */
+export const DEFAULT_VIDEO_SETTINGS: VideoPromptSettings = { clipCount: 3, clipSeconds: 8, model: 'veo' };
+
+const aspectRatio = oneOf(ASPECT_RATIOS);
+const prompt = string({ minLength: 1, maxLength: 4000 });
+const brandProfile = optional(object({
+  name: string({ maxLength: BRAND_PROFILE_LIMITS.name }),
+  topicDomain: string({ minLength: 1, maxLength: BRAND_PROFILE_LIMITS.topicDomain }),
+  audience: string({ maxLength: BRAND_PROFILE_LIMITS.audience }),
+  readingLevel: string({ maxLength: BRAND_PROFILE_LIMITS.readingLevel }),
+  tone: string({ maxLength: BRAND_PROFILE_LIMITS.tone }),
+  bannedWords: array(string({ maxLength: BRAND_PROFILE_LIMITS.bannedWords.maxLength }), { maxLength: BRAND_PROFILE_LIMITS.bannedWords.maxItems }),
+  examplePosts: array(string({ maxLength: BRAND_PROFILE_LIMITS.examplePosts.maxLength }), { maxLength: BRAND_PROFILE_LIMITS.examplePosts.maxItems }),
+}));
+const videoSettings = optional(object({
+  clipCount: number({ integer: true, min: 1, max: MAX_VIDEO_CLIPS }),
+  clipSeconds: number({ min: 1, max: MAX_CLIP_SECONDS }),
+  targetSeconds: optional(number({ min: 1, max: MAX_VIDEO_CLIPS * MAX_CLIP_SECONDS })),
+  model: oneOf(VIDEO_MODELS),
+}));
+const clipText = string({ maxLength: MAX_CLIP_TEXT_LENGTH });
+const videoPrompt = object({
+  sceneTitle: clipText,
+  duration: clipText,
+  dialog: clipText,
+  camera: object({ movement: clipText, angle: clipText, lighting: clipText }),
+  setting: object({ location: clipText, props: array(clipText, { maxLength: MAX_CLIP_PROPS }), weather: clipText }),
+  action: clipText,
+  visualCues: clipText,
+  textOverlay: object({ content: clipText, style: clipText, transition: clipText }),
+  mood: clipText,
+  audio: object({ music: clipText, sfx: clipText }),
+});
+const sceneText = string({ maxLength: 4000 });
+// The storyboard an AI scene operation works on, sent whole so new scenes stay consistent with it.
+// Scene images are not sent; only the text is context.
+const storyboardContext = {
+  topic: string({ minLength: 1, maxLength: 1000 }),
+  style: string({ maxLength: 200 }),
+  characterGender: oneOf(['male', 'female'] as const),
+  hasCharacterImage: boolean(),
+  profile: brandProfile,
+  scenes: array(object({ description: sceneText, visuals: sceneText, dialogue: sceneText, sound: sceneText }), { minLength: 1, maxLength: MAX_STORY_SCENES }),
+};
+const sceneIndex = number({ integer: true, min: 0, max: MAX_STORY_SCENES - 1 });
+const sceneInstruction = string({ maxLength: 500 });
+const brandStyle = optional(object({
+  palette: array(string({ pattern: /^#[0-9a-f]{6}$/i, patternMessage: 'must be a #rrggbb hex color' }), { maxLength: 12 }),
+  keywords: array(string({ minLength: 1, maxLength: 100 }), { maxLength: 20 }),
+}));
+
+export const actionPayloadSchemas = {
+  generateContent: object({
+    type: optional(oneOf(['quote', 'tip'] as const)),
+    profile: brandProfile,
+  }),
+  generateContentBatch: object({
+    type: optional(oneOf(['quote', 'tip'] as const)),
+    count: number({ integer: true, min: 2, max: 31 }),
+    /** Existing posts the model should not repeat. */
+    avoid: optional(array(string({ maxLength: MAX_AVOID_TEXT_LENGTH }), { maxLength: 100 })),
+    profile: brandProfile,
+  }),
+  generateImageWithQuote: object({
+    quote: string({ minLength: 1, maxLength: 1000 }),
+    aspectRatio: optional(aspectRatio),
+    profile: brandProfile,
+    brandStyle,
+  }),
+  editImage: object({
+    base64Image: dataUrl('image/'),
+    prompt,
+    maskBase64: optional(dataUrl('image/png')),
+  }),
+  generateVideoPrompts: object({
+    quote: string({ minLength: 1, maxLength: 1000 }),
+    imageBase64: optional(dataUrl('image/')),
+    profile: brandProfile,
+    settings: videoSettings,
+  }),
+  regenerateVideoClip: object({
+    quote: string({ minLength: 1, maxLength: 1000 }),
+    imageBase64: optional(dataUrl('image/')),
+    profile: brandProfile,
+    settings: videoSettings,
+    /** The whole sequence as it stands, so the new clip fits between its neighbours. */
+    clips: array(videoPrompt, { minLength: 1, maxLength: MAX_VIDEO_CLIPS }),
+    /** Position in `clips` of the clip to replace. */
+    index: number({ integer: true, min: 0, max: MAX_VIDEO_CLIPS - 1 }),
+  }),
+  generateStoryElements: object({
+    topic: string({ minLength: 1, maxLength: 1000 }),
+    numScenes: number({ integer: true, min: 1, max: MAX_STORY_SCENES }),
+    style: string({ maxLength: 200 }),
+    characterGender: oneOf(['male', 'female'] as const),
+    hasCharacterImage: boolean(),
+    profile: brandProfile,
+  }),
+  /** Rewrites scenes[index] to follow `instruction`. */
+  rewriteScene: object({
+    ...storyboardContext,
+    index: sceneIndex,
+    instruction: string({ minLength: 1, maxLength: 500 }),
+  }),
+  /** Replaces scenes[index] with two scenes that cover the same beat. */
+  splitScene: object({
+    ...storyboardContext,
+    index: sceneIndex,
+    instruction: optional(sceneInstruction),
+  }),
+  /** Writes one scene to go between scenes[index] and scenes[index + 1]. */
+  bridgeScenes: object({
+    ...storyboardContext,
+    index: sceneIndex,
+  }),
+  /** Writes `count` scenes that continue the story past its current ending. */
+  extendStory: object({
+    ...storyboardContext,
+    count: number({ integer: true, min: 1, max: MAX_EXTEND_SCENES }),
+    instruction: optional(sceneInstruction),
+  }),
+  generateImageForScene: object({
+    visualsPrompt: prompt,
+    aspectRatio,
+    characterImage: optional(dataUrl('image/')),
+    brandStyle,
+  }),
+  generatePostCopy: object({
+    /** The quote or tip the post is about. */
+    text: string({ minLength: 1, maxLength: 1000 }),
+    platform: oneOf(SOCIAL_PLATFORMS),
+    emojiDensity: oneOf(EMOJI_DENSITIES),
+    /** The finished image, so the alt text describes what is actually on it. */
+    imageBase64: optional(dataUrl('image/')),
+    profile: brandProfile,
+  }),
+  getAutomationStrategies: object({}),
+  saveToDrive: object({
+    accessToken: string({ minLength: 1 }),
+    fileData: dataUrl(),
+    fileName: string({ minLength: 1, maxLength: 255 }),
+    folderId: optional(string({ minLength: 1 })),
+    folderName: optional(string({ minLength: 1, maxLength: 255 })),
+  }),
+};
+
+export interface ActionResponses {
+  generateContent: string;
+  generateContentBatch: string[];
+  /** The clean background only; the quote is rendered onto it in the browser. */
+  generateImageWithQuote: { withoutOverlay: string };
+  editImage: string;
+  generateVideoPrompts: VideoPrompt[];
+  regenerateVideoClip: VideoPrompt;
+  generateStoryElements: { thumbnailPrompt: string, scenes: StoryScene[] };
+  rewriteScene: StoryScene;
+  splitScene: StoryScene[];
+  bridgeScenes: StoryScene;
+  extendStory: StoryScene[];
+  generateImageForScene: string;
+  generatePostCopy: PostCopy;
+  getAutomationStrategies: Strategy[];
+  saveToDrive: { id: string, webViewLink: string };
+}
+
+/** A scene as the model writes it; the browser numbers scenes by their position. */
+export type StoryScene = Omit<SceneCard, 'sceneNumber'>;
+
+export type ActionName = keyof typeof actionPayloadSchemas & keyof ActionResponses;
+export type ActionPayload<A extends ActionName> = Infer<(typeof actionPayloadSchemas)[A]>;
+export type ActionResponse<A extends ActionName> = ActionResponses[A];
+/** The brand profile fields the prompts use; the profile's id is not sent. */
+export type PromptProfile = NonNullable<Infer<typeof brandProfile>>;
+/** The storyboard fields every AI scene operation is sent. */
+export type StoryboardContext = Omit<ActionPayload<'bridgeScenes'>, 'index'>;
+/** The brand kit's palette and style keywords, as sent with image prompts. */
+export type PromptBrandStyle = NonNullable<Infer<typeof brandStyle>>;
+
+/** Per-request dependencies and bookkeeping shared by the handler of an action. */
+export interface ActionContext {
+  provider: AIProvider;
+  retryOptions: RetryOptions;
+  drive: DriveOptions;
+  /** Every model that produced part of the response, in call order. */
+  modelsUsed: string[];
+}
+
+/** Body of every successful /api/gemini response, and what either transport resolves with. */
+export interface ActionResult<A extends ActionName> {
+  result: ActionResponse<A>;
+  /** The model(s) that actually served the request, in call order; empty for actions that need no model. */
+  modelsUsed: string[];
+  /** The AI provider ("gemini" or "mock") behind those models; absent when no model was used. */
+  provider?: string;
+}
+
+/** Response header listing the model(s) that actually served a request. */
+export const MODEL_HEADER = 'X-Gemini-Model';
+
+/** Response header naming the AI provider ("gemini" or "mock") behind a request. */
+export const PROVIDER_HEADER = 'X-AI-Provider';
+
+/** Implementation of every action, keyed by action name (see actionHandlers.ts). */
+export type ActionHandlers = {
+  [A in ActionName]: (payload: ActionPayload<A>, context: ActionContext) => Promise<ActionResponse<A>>;
+};
+
+export const isActionName = (action: unknown): action is ActionName =>
+  typeof action === 'string' && Object.prototype.hasOwnProperty.call(actionPayloadSchemas, action);
+
+export const validateActionPayload = <A extends ActionName>(action: A, payload: unknown): ValidationResult<ActionPayload<A>> =>
+  validate(actionPayloadSchemas[action] as (value: unknown, field: string, issues: FieldIssue[]) => ActionPayload<A>, payload);
+
+export class PayloadValidationError extends ApiError {
+  readonly action: string;
+
+  constructor(action: string, issues: FieldIssue[]) {
+    super('INVALID_REQUEST', `Invalid request for "${action}": ${formatIssues(issues)}`, { issues });
+    this.name = 'PayloadValidationError';
+    this.action = action;
+  }
+}
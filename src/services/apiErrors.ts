@@ -0,0 +1,186 @@
+import type { FieldIssue } from '../utils/validation';
+
+// Shared error model for /api/gemini. The serverless function classifies every failure into
+// one of these codes, the JSON error body carries it to the browser, and callApi rebuilds an
+// ApiError so components can tell the user what actually went wrong and what to do next.
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'SAFETY_BLOCKED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXHAUSTED'
+  | 'NO_IMAGE_RETURNED'
+  | 'EMPTY_RESPONSE'
+  | 'INVALID_JSON'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UNAUTHORIZED'
+  | 'NETWORK_ERROR'
+  | 'INTERNAL';
+
+interface ErrorCodeInfo {
+  status: number;
+  retryable: boolean;
+  /** What went wrong, phrased for the person using the app. */
+  cause: string;
+  /** What they can do about it. */
+  nextStep: string;
+}
+
+export const API_ERROR_INFO: Record<ApiErrorCode, ErrorCodeInfo> = {
+  INVALID_REQUEST: {
+    status: 400, retryable: false,
+    cause: 'Some of the request details are missing or invalid.',
+    nextStep: 'Check the highlighted fields and try again.',
+  },
+  SAFETY_BLOCKED: {
+    status: 422, retryable: false,
+    cause: "Gemini's safety filters blocked this request.",
+    nextStep: 'Rephrase the text or prompt to avoid sensitive content, then try again.',
+  },
+  RATE_LIMITED: {
+    status: 429, retryable: true,
+    cause: 'Gemini is receiving too many requests right now.',
+    nextStep: 'Wait a few seconds and try again.',
+  },
+  QUOTA_EXHAUSTED: {
+    status: 429, retryable: false,
+    cause: 'The Gemini API quota for this project has been used up.',
+    nextStep: 'Wait for the quota to reset or raise the limit in Google AI Studio.',
+  },
+  NO_IMAGE_RETURNED: {
+    status: 502, retryable: true,
+    cause: 'Gemini answered without returning an image.',
+    nextStep: 'Try again, or simplify the prompt if it keeps happening.',
+  },
+  EMPTY_RESPONSE: {
+    status: 502, retryable: true,
+    cause: 'Gemini returned an empty response.',
+    nextStep: 'Try again in a moment.',
+  },
+  INVALID_JSON: {
+    status: 502, retryable: true,
+    cause: "Gemini's response could not be read as structured data.",
+    nextStep: 'Try again; the model usually succeeds on a second attempt.',
+  },
+  UPSTREAM_TIMEOUT: {
+    status: 504, retryable: true,
+    cause: 'Gemini took too long to respond.',
+    nextStep: 'Try again, or ask for fewer scenes or a shorter prompt.',
+  },
+  UPSTREAM_UNAVAILABLE: {
+    status: 503, retryable: true,
+    cause: 'Gemini is temporarily unavailable.',
+    nextStep: 'Try again in a minute.',
+  },
+  UNAUTHORIZED: {
+    status: 401, retryable: false,
+    cause: 'The request was not authorized.',
+    nextStep: 'Reconnect your account or check the API key, then try again.',
+  },
+  NETWORK_ERROR: {
+    status: 0, retryable: true,
+    cause: 'The app could not reach the server.',
+    nextStep: 'Check your internet connection and try again.',
+  },
+  INTERNAL: {
+    status: 500, retryable: false,
+    cause: 'Something went wrong on the server.',
+    nextStep: 'Try again. If it keeps failing, check the server logs.',
+  },
+};
+
+/** JSON body of every non-2xx response from /api/gemini. */
+export interface ApiErrorResponse {
+  error: string;
+  code: ApiErrorCode;
+  retryable: boolean;
+  details?: string;
+  issues?: FieldIssue[];
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly details?: string;
+  readonly issues?: FieldIssue[];
+
+  constructor(code: ApiErrorCode, message?: string, options: { details?: string; issues?: FieldIssue[]; cause?: unknown } = {}) {
+    super(message || API_ERROR_INFO[code].cause);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = API_ERROR_INFO[code].status;
+    this.retryable = API_ERROR_INFO[code].retryable;
+    this.details = options.details;
+    this.issues = options.issues;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+
+  get nextStep(): string {
+    return API_ERROR_INFO[this.code].nextStep;
+  }
+
+  toResponse(): ApiErrorResponse {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.details ? { details: this.details } : {}),
+      ...(this.issues ? { issues: this.issues } : {}),
+    };
+  }
+}
+
+const isApiErrorCode = (code: unknown): code is ApiErrorCode =>
+  typeof code === 'string' && Object.prototype.hasOwnProperty.call(API_ERROR_INFO, code);
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400) return 'INVALID_REQUEST';
+  if (status === 401 || status === 403) return 'UNAUTHORIZED';
+  if (status === 408 || status === 504) return 'UPSTREAM_TIMEOUT';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 502 || status === 503) return 'UPSTREAM_UNAVAILABLE';
+  return 'INTERNAL';
+};
+
+/** Rebuilds an ApiError from a failed /api/gemini response (body may be missing or non-JSON). */
+export const apiErrorFromResponse = (status: number, body: unknown): ApiError => {
+  const data = (typeof body === 'object' && body !== null ? body : {}) as Partial<ApiErrorResponse>;
+  const code = isApiErrorCode(data.code) ? data.code : codeForStatus(status);
+  return new ApiError(code, data.error, { details: data.details, issues: data.issues });
+};
+
+/**
+ * Maps anything thrown while talking to Gemini or Google Drive onto the taxonomy.
+ * Errors that are already classified pass through untouched.
+ */
+export const classifyError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const err = (error ?? {}) as { name?: string; message?: string; status?: number; code?: number | string };
+  const message = err.message || String(error);
+  const status = typeof err.status === 'number' ? err.status : typeof err.code === 'number' ? err.code : undefined;
+  const wrap = (code: ApiErrorCode) => new ApiError(code, undefined, { details: message, cause: error });
+
+  if (err.name === 'AbortError' || err.name === 'TimeoutError' || /timed? ?out|deadline/i.test(message)) return wrap('UPSTREAM_TIMEOUT');
+  if (/safety|blocked|prohibited/i.test(message)) return wrap('SAFETY_BLOCKED');
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit/i.test(message)) {
+    // Per-minute throttling clears on its own; an exhausted daily or billing quota does not.
+    return wrap(/exceeded your current quota|billing|per ?day|daily/i.test(message) ? 'QUOTA_EXHAUSTED' : 'RATE_LIMITED');
+  }
+  if (status === 503 || /UNAVAILABLE|overloaded/i.test(message)) return wrap('UPSTREAM_UNAVAILABLE');
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return wrap('UNAUTHORIZED');
+  if (error instanceof SyntaxError) return wrap('INVALID_JSON');
+  if (status !== undefined) return wrap(codeForStatus(status));
+  return wrap('INTERNAL');
+};
+
+/** Text for a component's error banner: the cause, followed by the suggested next step. */
+export const describeError = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const cause = error.code === 'INVALID_REQUEST' || error.code === 'UNAUTHORIZED' ? error.message : API_ERROR_INFO[error.code].cause;
+    return `${cause} ${error.nextStep}`;
+  }
+  return fallback;
+};
@@ -0,0 +1,88 @@
+import type { BrandKit, TextOverlayStyle } from '../types';
+import type { PromptBrandStyle } from './apiActions';
+import { string, number, boolean, oneOf, optional, array, object } from '../utils/validation';
+import { readStoredJson, writeStoredJson } from '../utils/localStore';
+import { OVERLAY_FONTS, DEFAULT_TEXT_OVERLAY_STYLE } from '../utils/textOverlay';
+
+// One brand kit for the whole app, kept in localStorage next to the brand profiles. It is applied
+// in the browser (watermarks, fonts) and its palette and keywords are sent with image prompts.
+
+const BRAND_KIT_KEY = 'content-automator.brand-kit';
+
+/** Logos are stored inline in localStorage, so they are kept small. */
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+const MAX_PALETTE_COLORS = 12;
+const MAX_STYLE_KEYWORDS = 20;
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  enabled: true,
+  logo: null,
+  handle: '',
+  watermark: { position: 'bottom-right', opacity: 0.8, size: 0.08 },
+  palette: [],
+  fonts: { heading: 'Playfair Display', body: 'Montserrat' },
+  styleKeywords: [],
+};
+
+const storedKitSchema = object({
+  enabled: boolean(),
+  logo: optional(string({ pattern: /^data:image\/(png|svg\+xml);base64,/, patternMessage: 'must be a PNG or SVG data URL' })),
+  handle: string({ maxLength: 100 }),
+  watermark: object({
+    position: oneOf(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const),
+    opacity: number({ min: 0, max: 1 }),
+    size: number({ min: 0.02, max: 0.3 }),
+  }),
+  palette: array(string()),
+  fonts: object({ heading: string(), body: string() }),
+  styleKeywords: array(string()),
+});
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Expands "#abc" to "#aabbcc" and lowercases; anything else that is not a hex color becomes null. */
+export const normalizeHexColor = (value: string): string | null => {
+  const hex = value.trim().replace(/^#?([0-9a-f])([0-9a-f])([0-9a-f])$/i, '#$1$1$2$2$3$3');
+  const prefixed = hex.startsWith('#') ? hex : `#${hex}`;
+  return HEX_COLOR.test(prefixed) ? prefixed.toLowerCase() : null;
+};
+
+const knownFont = (family: string, fallback: string) =>
+  OVERLAY_FONTS.some(font => font.family === family) ? family : fallback;
+
+/**
+ * Cleans up a kit from the editor: valid, unique hex colors, trimmed keywords without repeats,
+ * fonts the overlay renderer knows, and lists cut to the lengths the API accepts.
+ */
+export const normalizeBrandKit = (kit: BrandKit): BrandKit => ({
+  ...kit,
+  handle: kit.handle.trim().slice(0, 100),
+  palette: [...new Set(kit.palette.map(normalizeHexColor).filter((color): color is string => !!color))].slice(0, MAX_PALETTE_COLORS),
+  fonts: {
+    heading: knownFont(kit.fonts.heading, DEFAULT_BRAND_KIT.fonts.heading),
+    body: knownFont(kit.fonts.body, DEFAULT_BRAND_KIT.fonts.body),
+  },
+  styleKeywords: [...new Set(kit.styleKeywords.map(keyword => keyword.trim().slice(0, 100)).filter(Boolean))].slice(0, MAX_STYLE_KEYWORDS),
+});
+
+/** The saved kit, or an empty one when nothing valid is stored. */
+export const loadBrandKit = (): BrandKit => {
+  const stored = readStoredJson(BRAND_KIT_KEY, storedKitSchema, null);
+  return stored ? normalizeBrandKit({ ...stored, logo: stored.logo ?? null }) : DEFAULT_BRAND_KIT;
+};
+
+export const saveBrandKit = (kit: BrandKit) => writeStoredJson(BRAND_KIT_KEY, kit);
+
+/** The palette and keywords to send with image prompts, or undefined when the kit adds nothing. */
+export const promptBrandStyle = (kit?: BrandKit): PromptBrandStyle | undefined => {
+  if (!kit?.enabled || (kit.palette.length === 0 && kit.styleKeywords.length === 0)) return undefined;
+  return { palette: kit.palette, keywords: kit.styleKeywords };
+};
+
+/** The default quote style, typeset in the kit's heading font. */
+export const brandOverlayStyle = (kit?: BrandKit): TextOverlayStyle =>
+  kit?.enabled ? { ...DEFAULT_TEXT_OVERLAY_STYLE, fontFamily: kit.fonts.heading } : DEFAULT_TEXT_OVERLAY_STYLE;
+
+/** Palette colors to offer as text color swatches. */
+export const brandPalette = (kit?: BrandKit): string[] => kit?.enabled ? kit.palette : [];
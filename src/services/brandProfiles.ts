@@ -0,0 +1,119 @@
+import type { BrandProfile } from '../types';
+import { string, array, object } from '../utils/validation';
+import { readStoredJson, writeStoredJson } from '../utils/localStore';
+import { BRAND_PROFILE_LIMITS } from './apiActions';
+
+// Brand profiles are small settings shared by every tab, so they live in localStorage rather
+// than the IndexedDB content library. The active profile is sent with each generation request.
+
+const PROFILES_KEY = 'content-automator.brand-profiles';
+const ACTIVE_PROFILE_KEY = 'content-automator.active-brand-profile';
+
+export const DEFAULT_BRAND_PROFILES: BrandProfile[] = [
+  {
+    id: 'finance',
+    name: 'Finance',
+    topicDomain: 'personal finance',
+    audience: 'young professionals building wealth',
+    readingLevel: 'plain English, grade 8',
+    tone: 'optimistic and inspiring',
+    bannedWords: ['get rich quick', 'guaranteed returns'],
+    examplePosts: [],
+  },
+  {
+    id: 'fitness',
+    name: 'Fitness',
+    topicDomain: 'fitness and strength training',
+    audience: 'busy adults getting back into exercise',
+    readingLevel: 'plain English, grade 6',
+    tone: 'energetic and encouraging',
+    bannedWords: ['no pain no gain', 'beach body'],
+    examplePosts: [],
+  },
+  {
+    id: 'mindset',
+    name: 'Mindset',
+    topicDomain: 'mindset and personal growth',
+    audience: 'people working on habits and self-belief',
+    readingLevel: 'plain English, grade 8',
+    tone: 'calm, reflective and hopeful',
+    bannedWords: [],
+    examplePosts: [],
+  },
+  {
+    id: 'entrepreneurship',
+    name: 'Entrepreneurship',
+    topicDomain: 'entrepreneurship and small business',
+    audience: 'first-time founders and side hustlers',
+    readingLevel: 'plain English, grade 9',
+    tone: 'bold, practical and direct',
+    bannedWords: ['hustle culture'],
+    examplePosts: [],
+  },
+  {
+    id: 'faith',
+    name: 'Faith',
+    topicDomain: 'Christian faith and encouragement',
+    audience: 'believers looking for daily encouragement',
+    readingLevel: 'plain English, grade 7',
+    tone: 'warm, gentle and uplifting',
+    bannedWords: [],
+    examplePosts: [],
+  },
+];
+
+const storedProfilesSchema = array(object({
+  id: string({ minLength: 1 }),
+  name: string(),
+  topicDomain: string(),
+  audience: string(),
+  readingLevel: string(),
+  tone: string(),
+  bannedWords: array(string()),
+  examplePosts: array(string()),
+}), { minLength: 1 });
+
+/**
+ * The saved profiles, or the built-in ones when nothing valid is stored. Saved profiles are
+ * normalized, since ones saved by older versions may be longer than the API now accepts.
+ */
+export const loadBrandProfiles = (): BrandProfile[] =>
+  readStoredJson(PROFILES_KEY, storedProfilesSchema, DEFAULT_BRAND_PROFILES).map(normalizeBrandProfile);
+
+export const saveBrandProfiles = (profiles: BrandProfile[]) => writeStoredJson(PROFILES_KEY, profiles);
+
+export const loadActiveProfileId = (): string | null => readStoredJson(ACTIVE_PROFILE_KEY, string(), null);
+
+export const saveActiveProfileId = (id: string) => writeStoredJson(ACTIVE_PROFILE_KEY, id);
+
+export const createBrandProfile = (): BrandProfile => ({
+  id: crypto.randomUUID(),
+  name: 'New brand',
+  topicDomain: '',
+  audience: '',
+  readingLevel: '',
+  tone: '',
+  bannedWords: [],
+  examplePosts: [],
+});
+
+/**
+ * Cleans up a profile from the editor or from storage: trimmed fields, banned words and examples
+ * without blanks or repeats, and every field cut to the lengths the API accepts.
+ */
+export const normalizeBrandProfile = (profile: BrandProfile): BrandProfile => {
+  const text = (value: string, maxLength: number) => value.trim().slice(0, maxLength).trim();
+  const list = (values: string[], { maxItems, maxLength }: { maxItems: number, maxLength: number }) =>
+    [...new Set(values.map(value => text(value, maxLength)).filter(Boolean))].slice(0, maxItems);
+  const name = text(profile.name, BRAND_PROFILE_LIMITS.name) || 'Untitled brand';
+  return {
+    ...profile,
+    name,
+    topicDomain: text(profile.topicDomain, BRAND_PROFILE_LIMITS.topicDomain) || name,
+    audience: text(profile.audience, BRAND_PROFILE_LIMITS.audience),
+    readingLevel: text(profile.readingLevel, BRAND_PROFILE_LIMITS.readingLevel),
+    tone: text(profile.tone, BRAND_PROFILE_LIMITS.tone),
+    bannedWords: list(profile.bannedWords, BRAND_PROFILE_LIMITS.bannedWords),
+    examplePosts: list(profile.examplePosts, BRAND_PROFILE_LIMITS.examplePosts),
+  };
+};
@@ -0,0 +1,166 @@
+import type { LibraryItem, LibraryItemKind } from '../types';
+
+// Local content library. Everything the generators produce is auto-saved to IndexedDB in the
+// browser, so quotes, images, video prompts and storyboards survive tab switches and reloads.
+
+const DB_NAME = 'content-automator';
+const DB_VERSION = 1;
+const STORE_NAME = 'library';
+
+/** What a caller supplies when saving; bookkeeping fields are filled in (or kept, when `id` exists). */
+export type LibraryItemInput = {
+  [K in LibraryItemKind]: Omit<Extract<LibraryItem, { kind: K }>, 'id' | 'createdAt' | 'updatedAt' | 'favorite' | 'tags' | 'title'>
+    & Partial<Pick<LibraryItem, 'id' | 'favorite' | 'tags' | 'title'>>;
+}[LibraryItemKind];
+
+/** The stored item type for a given input. */
+export type SavedLibraryItem<I extends LibraryItemInput> = Extract<LibraryItem, { kind: I['kind'] }>;
+
+export interface LibraryQuery {
+  text?: string;
+  kind?: LibraryItemKind;
+  favoritesOnly?: boolean;
+  tag?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => (dbPromise ??= new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available in this browser.'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => {
+    dbPromise = undefined;
+    reject(request.error);
+  };
+}));
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+const truncate = (text: string, length = 80) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const defaultTitle = (item: LibraryItemInput): string => {
+  switch (item.kind) {
+    case 'text': return truncate(item.data.text);
+    case 'image': return truncate(item.data.quote);
+    case 'videoPrompts': return truncate(item.data.quote);
+    case 'storyboard': return truncate(item.data.topic);
+  }
+};
+
+/** Normalises free-form tag input: trimmed, lower-case, de-duplicated, empties dropped. */
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const listLibraryItems = async (): Promise<LibraryItem[]> => {
+  const items = await withStore('readonly', store => store.getAll() as IDBRequest<LibraryItem[]>);
+  return items.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLibraryItem = (id: string): Promise<LibraryItem | undefined> =>
+  withStore('readonly', store => store.get(id) as IDBRequest<LibraryItem | undefined>);
+
+/**
+ * Fills in the bookkeeping fields of an item. Favorite status, tags, title and creation time
+ * of `existing` are kept unless the input sets them explicitly.
+ */
+export const buildLibraryItem = <I extends LibraryItemInput>(input: I, existing?: LibraryItem): SavedLibraryItem<I> => {
+  const now = Date.now();
+  return {
+    ...input,
+    id: input.id ?? crypto.randomUUID(),
+    title: input.title ?? existing?.title ?? defaultTitle(input),
+    favorite: input.favorite ?? existing?.favorite ?? false,
+    tags: normalizeTags(input.tags ?? existing?.tags ?? []),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  } as LibraryItem as SavedLibraryItem<I>;
+};
+
+/** Creates an item, or replaces the content of an existing one when `id` is given. */
+export const saveLibraryItem = async <I extends LibraryItemInput>(input: I): Promise<SavedLibraryItem<I>> => {
+  const existing = input.id ? await getLibraryItem(input.id) : undefined;
+  const item = buildLibraryItem(input, existing);
+  await withStore('readwrite', store => store.put(item));
+  return item;
+};
+
+/** Auto-save used by the generators: a library failure is logged but never interrupts generation. */
+export const autoSaveLibraryItem = async <I extends LibraryItemInput>(input: I): Promise<SavedLibraryItem<I> | null> => {
+  try {
+    return await saveLibraryItem(input);
+  } catch (error) {
+    console.warn('Could not save to the content library:', error);
+    return null;
+  }
+};
+
+export const updateLibraryItem = async (id: string, changes: Partial<Pick<LibraryItem, 'title' | 'favorite' | 'tags'>>): Promise<LibraryItem> => {
+  const existing = await getLibraryItem(id);
+  if (!existing) throw new Error(`Library item "${id}" no longer exists.`);
+  const item = {
+    ...existing,
+    ...changes,
+    tags: normalizeTags(changes.tags ?? existing.tags),
+    updatedAt: Date.now(),
+  } as LibraryItem;
+  await withStore('readwrite', store => store.put(item));
+  return item;
+};
+
+export const deleteLibraryItem = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+// Everything a search box should match: the title, tags and the item's own text content.
+const searchableText = (item: LibraryItem): string => {
+  const content = (() => {
+    switch (item.kind) {
+      case 'text': return [item.data.text];
+      case 'image': return [item.data.quote];
+      case 'videoPrompts': return [item.data.quote, ...item.data.prompts.flatMap(prompt => [prompt.sceneTitle, prompt.action, prompt.dialog])];
+      case 'storyboard': return [item.data.topic, item.data.tone, ...item.data.scenes.flatMap(scene => [scene.description, scene.dialogue])];
+    }
+  })();
+  return [item.title, ...item.tags, ...content].join('\n').toLowerCase();
+};
+
+export const filterLibraryItems = (items: LibraryItem[], query: LibraryQuery): LibraryItem[] => {
+  const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item =>
+    (!query.kind || item.kind === query.kind)
+    && (!query.favoritesOnly || item.favorite)
+    && (!query.tag || item.tags.includes(query.tag))
+    && (words.length === 0 || words.every(word => searchableText(item).includes(word))));
+};
+
+/** Every quote or tip text the library holds, for de-duplicating new content against it. */
+export const libraryPostTexts = (items: LibraryItem[]): string[] => [...new Set(items.flatMap(item => {
+  switch (item.kind) {
+    case 'text': return [item.data.text];
+    case 'image': return [item.data.quote];
+    case 'videoPrompts': return [item.data.quote];
+    default: return [];
+  }
+}))];
+
+/** Every tag in use, most frequent first. */
+export const libraryTags = (items: LibraryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) for (const tag of item.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
@@ -0,0 +1,94 @@
+import JSZip from 'jszip';
+import type { EditHistory, EditNode } from '../types';
+import { imageExtension, parseDataUrl } from '../utils/fileUtils';
+
+// The image editor's timeline. Every edit, AI or local, becomes a child of the image it was applied
+// to, so going back and editing again starts a new branch instead of discarding what came after.
+
+type EditDetails = Pick<EditNode, 'mask' | 'adjustments'>;
+
+const node = (image: string, prompt: string | null, parentId: string | null, details: EditDetails = {}): EditNode => ({
+  id: crypto.randomUUID(),
+  parentId,
+  image,
+  prompt,
+  ...details,
+  createdAt: Date.now(),
+});
+
+/** Starts a history with the uploaded image as its root. */
+export const createEditHistory = (image: string): EditHistory => {
+  const root = node(image, null, null);
+  return { nodes: [root], currentId: root.id, redoIds: [] };
+};
+
+export const findEditNode = (history: EditHistory, id: string): EditNode | undefined =>
+  history.nodes.find(candidate => candidate.id === id);
+
+export const currentEditNode = (history: EditHistory): EditNode =>
+  findEditNode(history, history.currentId) ?? history.nodes[0];
+
+/** Adds `image` as a child of `parentId` and makes it current. */
+export const addEdit = (history: EditHistory, parentId: string, image: string, prompt: string, details?: EditDetails): EditHistory => {
+  const child = node(image, prompt, parentId, details);
+  return { nodes: [...history.nodes, child], currentId: child.id, redoIds: [] };
+};
+
+/** Jumps to any node, to view it or continue editing from it. */
+export const selectEdit = (history: EditHistory, id: string): EditHistory =>
+  findEditNode(history, id) && id !== history.currentId ? { ...history, currentId: id, redoIds: [] } : history;
+
+export const canUndo = (history: EditHistory): boolean => currentEditNode(history).parentId !== null;
+
+export const canRedo = (history: EditHistory): boolean => history.redoIds.length > 0;
+
+/** Steps back to the image the current one was edited from. */
+export const undoEdit = (history: EditHistory): EditHistory => {
+  const parentId = currentEditNode(history).parentId;
+  if (!parentId) return history;
+  return { ...history, currentId: parentId, redoIds: [history.currentId, ...history.redoIds] };
+};
+
+/** Steps forward again along the branch undo came back from. */
+export const redoEdit = (history: EditHistory): EditHistory => {
+  const [nextId, ...redoIds] = history.redoIds;
+  return nextId ? { ...history, currentId: nextId, redoIds } : history;
+};
+
+/** The edits that led to `id`, starting with the original upload. */
+export const editChain = (history: EditHistory, id: string): EditNode[] => {
+  const chain: EditNode[] = [];
+  for (let current = findEditNode(history, id); current; current = current.parentId ? findEditNode(history, current.parentId) : undefined) {
+    chain.unshift(current);
+  }
+  return chain;
+};
+
+/** Every node in depth-first order with its depth, for drawing the history as an indented tree. */
+export const flattenEditTree = (history: EditHistory): { node: EditNode, depth: number }[] => {
+  const rows: { node: EditNode, depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const child of history.nodes.filter(candidate => candidate.parentId === parentId)) {
+      rows.push({ node: child, depth });
+      visit(child.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+};
+
+/** Packs a chain of edits into a ZIP: one numbered image (and mask, for region edits) per step, plus chain.json with the prompts and adjustments. */
+export const createEditChainZip = (chain: EditNode[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const steps = chain.map((step, index) => {
+    const prefix = String(index).padStart(2, '0');
+    const { mimeType, data } = parseDataUrl(step.image);
+    const file = `${prefix}-${index === 0 ? 'original' : 'edit'}.${imageExtension(mimeType)}`;
+    zip.file(file, data, { base64: true });
+    const maskFile = step.mask ? `${prefix}-mask.png` : null;
+    if (step.mask && maskFile) zip.file(maskFile, parseDataUrl(step.mask).data, { base64: true });
+    return { step: index, file, maskFile, prompt: step.prompt, adjustments: step.adjustments ?? null, createdAt: new Date(step.createdAt).toISOString() };
+  });
+  zip.file('chain.json', JSON.stringify(steps, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,56 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { AIProvider, ImageInput, TextRequest } from './aiProvider';
+import { extractImage, extractText, parseJson } from './geminiResponses';
+
+// Keep below the platform's function timeout so slow calls surface as UPSTREAM_TIMEOUT rather than a bare 504
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+const toParts = ({ prompt, images = [] }: { prompt: string, images?: ImageInput[] }) => [
+  ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+  { text: prompt },
+];
+
+// Plain prompts go over as a bare string, exactly as before; anything with images becomes parts.
+const toContents = (request: TextRequest) => (request.images?.length ? { parts: toParts(request) } : request.prompt);
+
+export const createGeminiProvider = (apiKey: string, options: { timeoutMs?: number } = {}): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS } });
+
+  return {
+    name: 'gemini',
+
+    generateText: async (request) => {
+      const response = await ai.models.generateContent({ model: request.model, contents: toContents(request) });
+      return extractText(response);
+    },
+
+    generateJson: async <T>(request: Parameters<AIProvider['generateJson']>[0]) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: toContents(request),
+        config: { responseMimeType: "application/json", responseSchema: request.schema },
+      });
+      return parseJson<T>(response);
+    },
+
+    // The aspect ratio is already spelled out in the prompt, which is what the image models follow.
+    generateImage: async (request) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: { parts: toParts(request) },
+        config: { responseModalities: [Modality.IMAGE] },
+      });
+      return extractImage(response);
+    },
+
+    // The image models take no separate mask input; it goes along as a second image the prompt refers to.
+    editImage: async ({ model, image, prompt, mask }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts: toParts({ prompt, images: mask ? [image, mask] : [image] }) },
+        config: { responseModalities: [Modality.IMAGE] },
+      });
+      return extractImage(response);
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import type { GenerateContentResponse } from "@google/genai";
+import { ApiError } from './apiErrors';
+
+// Helpers that turn raw Gemini responses into values, or into classified ApiErrors when the
+// model was blocked, returned nothing usable or produced malformed JSON.
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'RECITATION'];
+
+const getFirstCandidateParts = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ApiError('SAFETY_BLOCKED', undefined, { details: `Prompt blocked: ${blockReason}` });
+  }
+  const candidate = response.candidates?.[0];
+  if (!candidate) throw new ApiError('EMPTY_RESPONSE', undefined, { details: 'No candidates returned.' });
+  if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new ApiError('SAFETY_BLOCKED', undefined, { details: `Generation stopped: ${candidate.finishReason}` });
+  }
+  return candidate.content?.parts ?? [];
+};
+
+export const extractImage = (response: GenerateContentResponse): { data: string, mimeType: string, dataUrl: string } => {
+  for (const part of getFirstCandidateParts(response)) {
+    if (part.inlineData?.data) {
+      const mimeType = part.inlineData.mimeType || 'image/png';
+      return { data: part.inlineData.data, mimeType, dataUrl: `data:${mimeType};base64,${part.inlineData.data}` };
+    }
+  }
+  throw new ApiError('NO_IMAGE_RETURNED', undefined, { details: `Finish reason: ${response.candidates?.[0]?.finishReason ?? 'unknown'}` });
+};
+
+export const extractText = (response: GenerateContentResponse): string => {
+  getFirstCandidateParts(response);
+  const text = response.text?.trim();
+  if (!text) throw new ApiError('EMPTY_RESPONSE');
+  return text;
+};
+
+export const parseJson = <T>(response: GenerateContentResponse): T => {
+  const text = extractText(response);
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new ApiError('INVALID_JSON', undefined, { details: error instanceof Error ? error.message : undefined, cause: error });
+  }
+};
@@ -0,0 +1,90 @@
+import { classifyError } from './apiErrors';
+import type { ApiError } from './apiErrors';
+import type { ActionName } from './apiActions';
+
+// Retry and model-fallback policy for Gemini calls. Transient failures (429/503, timeouts,
+// empty or malformed answers) are retried on the same model with exponential backoff and
+// full jitter; once a model's retries are spent the next model in the action's chain is tried.
+
+export interface RetryOptions {
+  /** Retries per model after the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export type GeminiAction = Exclude<ActionName, 'saveToDrive'>;
+
+/** Models to try for each action, in order of preference. */
+export const MODEL_CHAINS: Record<GeminiAction, readonly string[]> = {
+  generateContent: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  generateContentBatch: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  generateImageWithQuote: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  editImage: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  generateVideoPrompts: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  regenerateVideoClip: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  generateStoryElements: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  rewriteScene: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  splitScene: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  bridgeScenes: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  extendStory: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  generateImageForScene: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  generatePostCopy: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  getAutomationStrategies: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+};
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/** Reads GEMINI_MAX_RETRIES, GEMINI_RETRY_BASE_MS and GEMINI_RETRY_MAX_MS, falling back to the defaults. */
+export const retryOptionsFromEnv = (env: Record<string, string | undefined>): RetryOptions => ({
+  maxRetries: Math.floor(readNumber(env.GEMINI_MAX_RETRIES, DEFAULT_RETRY_OPTIONS.maxRetries)),
+  baseDelayMs: readNumber(env.GEMINI_RETRY_BASE_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+  maxDelayMs: readNumber(env.GEMINI_RETRY_MAX_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs),
+});
+
+/** "Full jitter" backoff: a random delay between 0 and the capped exponential step. */
+export const backoffDelay = (retry: number, options: RetryOptions, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A daily quota is per model, so it is worth moving down the chain even though retrying the same model is not.
+const shouldFallBack = (error: ApiError) => error.retryable || error.code === 'QUOTA_EXHAUSTED';
+
+/**
+ * Runs `attempt` against each model in `models` until one succeeds, retrying transient
+ * failures with backoff. Resolves with the result and the model that produced it; rejects
+ * with the last classified error once every model is exhausted or a failure is permanent.
+ */
+export const withModelFallback = async <T>(
+  models: readonly string[],
+  attempt: (model: string) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<{ result: T, model: string }> => {
+  let lastError: ApiError | undefined;
+
+  for (const model of models) {
+    for (let retry = 0; retry <= options.maxRetries; retry++) {
+      try {
+        return { result: await attempt(model), model };
+      } catch (error) {
+        lastError = classifyError(error);
+        console.warn(`Gemini call to ${model} failed (attempt ${retry + 1}/${options.maxRetries + 1}): ${lastError.code}`);
+        if (!lastError.retryable || retry === options.maxRetries) break;
+        await sleep(backoffDelay(retry, options));
+      }
+    }
+    if (lastError && !shouldFallBack(lastError)) break;
+  }
+
+  throw lastError ?? new Error('No models configured for this action.');
+};
@@ -1,41 +1,100 @@
-import type { VideoPrompt, SceneCard, Strategy } from '../types';
+import type { AspectRatio, BrandKit, BrandProfile, EmojiDensity, PostCopy, SocialPlatform, VideoPrompt, VideoPromptSettings, Strategy, TextOverlayStyle } from '../types';
+import { validateActionPayload, PayloadValidationError } from './apiActions';
+import type { ActionName, ActionPayload, ActionResponse, ActionResult, StoryboardContext, StoryScene } from './apiActions';
+import { transports, transportMode } from './transport';
+import { promptBrandStyle } from './brandKit';
+import { renderTextOverlay, DEFAULT_TEXT_OVERLAY_STYLE } from '../utils/textOverlay';
+import { applyWatermark } from '../utils/watermark';
 
-async function callApi<T>(action: string, payload: unknown): Promise<T> {
+const transport = transports[transportMode(import.meta.env.VITE_API_MODE)];
+
+/** Which model(s) answered an action, reported after every call that used a model. */
+export interface ServedBy {
+  action: ActionName;
+  modelsUsed: string[];
+  provider?: string;
+}
+
+const servedListeners = new Set<(served: ServedBy) => void>();
+
+/** Calls `listener` whenever an action is answered by a model; returns the unsubscribe function. */
+export const onActionServed = (listener: (served: ServedBy) => void): (() => void) => {
+  servedListeners.add(listener);
+  return () => { servedListeners.delete(listener); };
+};
+
+/** Runs an action and resolves with its result along with the model(s) that served it. */
+export async function callApiWithModels<A extends ActionName>(action: A, payload: ActionPayload<A>): Promise<ActionResult<A>> {
   try {
-    const response = await fetch('/api/gemini', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action, payload }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      const errorMessage = errorData.details || errorData.error || `API request failed with status ${response.status}`;
-      throw new Error(errorMessage);
+    const validation = validateActionPayload(action, payload);
+    if (!validation.ok) {
+      throw new PayloadValidationError(action, validation.issues);
     }
 
-    return await response.json();
+    const response = await transport(action, validation.value);
+    if (response.modelsUsed.length) {
+      servedListeners.forEach(listener => listener({ action, modelsUsed: response.modelsUsed, provider: response.provider }));
+    }
+    return response;
   } catch (error) {
     console.error(`Error calling API for action "${action}":`, error);
     throw error;
   }
 }
 
+async function callApi<A extends ActionName>(action: A, payload: ActionPayload<A>): Promise<ActionResponse<A>> {
+  return (await callApiWithModels(action, payload)).result;
+}
+
 // --- API wrappers ---
-export const generateContent = (type: 'quote' | 'tip' = 'quote'): Promise<string> => {
-  return callApi('generateContent', { type });
+export const generateContent = (type: 'quote' | 'tip' = 'quote', profile?: BrandProfile): Promise<string> => {
+  return callApi('generateContent', { type, profile });
+};
+
+export const generateContentBatch = (type: 'quote' | 'tip', count: number, avoid: string[] = [], profile?: BrandProfile): Promise<string[]> => {
+  return callApi('generateContentBatch', { type, count, avoid, profile });
+};
+
+/** Generates a clean background for a quote, with no text on it. */
+export const generateQuoteBackground = async (
+  quote: string,
+  aspectRatio: AspectRatio = '1:1',
+  profile?: BrandProfile,
+  brandKit?: BrandKit,
+): Promise<string> => {
+  const { withoutOverlay } = await callApi('generateImageWithQuote', { quote, aspectRatio, profile, brandStyle: promptBrandStyle(brandKit) });
+  return withoutOverlay;
 };
 
-export const generateImageWithQuote = (quote: string, aspectRatio: string = '1:1'): Promise<{ withOverlay: string, withoutOverlay: string }> => {
-  return callApi('generateImageWithQuote', { quote, aspectRatio });
+/** Generates the background for a quote, then typesets the quote and the brand watermark onto it locally. */
+export const generateImageWithQuote = async (
+  quote: string,
+  aspectRatio: AspectRatio = '1:1',
+  profile?: BrandProfile,
+  overlayStyle: TextOverlayStyle = DEFAULT_TEXT_OVERLAY_STYLE,
+  brandKit?: BrandKit,
+): Promise<{ withOverlay: string, withoutOverlay: string }> => {
+  const withoutOverlay = await generateQuoteBackground(quote, aspectRatio, profile, brandKit);
+  const withOverlay = await applyWatermark(await renderTextOverlay(withoutOverlay, quote, overlayStyle), brandKit);
+  return { withOverlay, withoutOverlay };
 };
 
-export const editImage = (base64Image: string, prompt: string): Promise<string> => {
-  return callApi('editImage', { base64Image, prompt });
+/** Edits the whole image, or only the white area of `maskBase64` (a black-and-white PNG of the same size). */
+export const editImage = (base64Image: string, prompt: string, maskBase64?: string): Promise<string> => {
+  return callApi('editImage', { base64Image, prompt, maskBase64 });
 };
 
-export const generateVideoPrompts = (quote: string, imageBase64?: string): Promise<VideoPrompt[]> => {
-  return callApi('generateVideoPrompts', { quote, imageBase64 });
+export const generateVideoPrompts = (
+  quote: string, imageBase64?: string, profile?: BrandProfile, settings?: VideoPromptSettings,
+): Promise<VideoPrompt[]> => {
+  return callApi('generateVideoPrompts', { quote, imageBase64, profile, settings });
+};
+
+/** Writes a replacement for `clips[index]` that continues from the clip before it and leads into the one after. */
+export const regenerateVideoClip = (
+  quote: string, clips: VideoPrompt[], index: number, imageBase64?: string, profile?: BrandProfile, settings?: VideoPromptSettings,
+): Promise<VideoPrompt> => {
+  return callApi('regenerateVideoClip', { quote, imageBase64, profile, settings, clips, index });
 };
 
 export const generateStoryElements = (
@@ -44,22 +103,65 @@ export const generateStoryElements = (
   style: string,
   characterGender: 'male' | 'female',
   hasCharacterImage: boolean,
-): Promise<{ thumbnailPrompt: string, scenes: Omit<SceneCard, 'sceneNumber'>[] }> => {
-  return callApi('generateStoryElements', { topic, numScenes, style, characterGender, hasCharacterImage });
+  profile?: BrandProfile,
+): Promise<{ thumbnailPrompt: string, scenes: StoryScene[] }> => {
+  return callApi('generateStoryElements', { topic, numScenes, style, characterGender, hasCharacterImage, profile });
+};
+
+// Scenes carry their rendered images on the client; only the text goes to the model.
+const storyPayload = ({ scenes, ...story }: StoryboardContext): StoryboardContext => ({
+  ...story,
+  scenes: scenes.map(({ description, visuals, dialogue, sound }) => ({ description, visuals, dialogue, sound })),
+});
+
+/** Rewrites `story.scenes[index]` following the instruction, in keeping with the rest of the board. */
+export const rewriteScene = (story: StoryboardContext, index: number, instruction: string): Promise<StoryScene> => {
+  return callApi('rewriteScene', { ...storyPayload(story), index, instruction });
+};
+
+/** Resolves with the two scenes that replace `story.scenes[index]`. */
+export const splitScene = (story: StoryboardContext, index: number, instruction?: string): Promise<StoryScene[]> => {
+  return callApi('splitScene', { ...storyPayload(story), index, instruction });
+};
+
+/** Writes a new scene to go between `story.scenes[index]` and the one after it. */
+export const bridgeScenes = (story: StoryboardContext, index: number): Promise<StoryScene> => {
+  return callApi('bridgeScenes', { ...storyPayload(story), index });
+};
+
+/** Writes `count` scenes to follow the current ending. */
+export const extendStory = (story: StoryboardContext, count: number, instruction?: string): Promise<StoryScene[]> => {
+  return callApi('extendStory', { ...storyPayload(story), count, instruction });
 };
 
 export const generateImageForScene = (
   visualsPrompt: string,
-  aspectRatio: string,
+  aspectRatio: AspectRatio,
   characterImage?: string | null,
+  brandKit?: BrandKit,
 ): Promise<string> => {
-  return callApi('generateImageForScene', { visualsPrompt, aspectRatio, characterImage });
+  return callApi('generateImageForScene', { visualsPrompt, aspectRatio, characterImage: characterImage ?? undefined, brandStyle: promptBrandStyle(brandKit) });
+};
+
+export const generatePostCopy = (
+  text: string,
+  platform: SocialPlatform,
+  emojiDensity: EmojiDensity,
+  imageBase64?: string,
+  profile?: BrandProfile,
+): Promise<PostCopy> => {
+  return callApi('generatePostCopy', { text, platform, emojiDensity, imageBase64, profile });
 };
 
 export const getAutomationStrategies = (): Promise<Strategy[]> => {
   return callApi('getAutomationStrategies', {});
 };
 
-export const savePackageToDrive = (accessToken: string, fileData: string, fileName: string): Promise<{id: string, webViewLink: string}> => {
-  return callApi('saveToDrive', { accessToken, fileData, fileName });
+export const savePackageToDrive = (
+  accessToken: string,
+  fileData: string,
+  fileName: string,
+  folder: { folderId?: string, folderName?: string } = {},
+): Promise<{id: string, webViewLink: string}> => {
+  return callApi('saveToDrive', { accessToken, fileData, fileName, ...folder });
 };
@@ -0,0 +1,111 @@
+import { ApiError, classifyError } from './apiErrors';
+
+// Google Drive uploads for the saveToDrive action. Only fetch, Blob and atob are used, so the
+// same code runs in the serverless function (proxy mode) and in the browser (direct mode).
+
+export interface DriveOptions {
+  /** Overridable so uploads can be pointed at a local fake Drive server during development. */
+  apiBase?: string;
+  /** Folder used when the request names none. */
+  defaultFolderId?: string;
+}
+
+const DEFAULT_DRIVE_API_BASE = 'https://www.googleapis.com';
+const DRIVE_FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+const driveRequest = async <T>(accessToken: string, path: string, init: { method?: string; headers?: Record<string, string>; body?: string | Blob } = {}, options: DriveOptions = {}): Promise<T> => {
+    const apiBase = (options.apiBase || DEFAULT_DRIVE_API_BASE).replace(/\/$/, '');
+    const response = await fetch(`${apiBase}${path}`, {
+        method: init.method || 'GET',
+        headers: { Authorization: `Bearer ${accessToken}`, ...init.headers },
+        body: init.body,
+    });
+
+    if (!response.ok) {
+        let message = response.statusText;
+        try {
+            const errorBody = await response.json();
+            message = errorBody?.error?.message || message;
+        } catch {
+            // Non-JSON error body; fall back to the status text.
+        }
+        const details = `Google Drive request failed with status ${response.status}: ${message}`;
+        if (response.status === 401) {
+            throw new ApiError('UNAUTHORIZED', 'Google Drive rejected the access token. It may have expired.', { details });
+        }
+        throw classifyError(Object.assign(new Error(details), { status: response.status }));
+    }
+
+    return await response.json() as T;
+};
+
+// Finds a folder this app created (drive.file scope only sees those), creating it if it doesn't exist yet.
+const resolveDriveFolder = async (accessToken: string, folderName: string, options: DriveOptions): Promise<string> => {
+    const escapedName = folderName.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const query = `mimeType='${DRIVE_FOLDER_MIME_TYPE}' and name='${escapedName}' and trashed=false`;
+    const existing = await driveRequest<{ files: { id: string }[] }>(
+        accessToken,
+        `/drive/v3/files?q=${encodeURIComponent(query)}&fields=files(id)&pageSize=1`,
+        {},
+        options,
+    );
+    if (existing.files?.length) return existing.files[0].id;
+
+    const created = await driveRequest<{ id: string }>(accessToken, '/drive/v3/files?fields=id', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json; charset=UTF-8' },
+        body: JSON.stringify({ name: folderName, mimeType: DRIVE_FOLDER_MIME_TYPE }),
+    }, options);
+    return created.id;
+};
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const saveToDrive = async (
+  accessToken: string, fileData: string, fileName: string, folderId?: string, folderName?: string, options: DriveOptions = {}
+): Promise<{ id: string, webViewLink: string }> => {
+    // fileData arrives as a data URL from the browser, e.g. "data:application/zip;base64,..."
+    const mimeType = fileData.startsWith('data:')
+      ? fileData.substring(fileData.indexOf(":") + 1, fileData.indexOf(";"))
+      : 'application/octet-stream';
+    const fileBytes = base64ToBytes(fileData.includes(',') ? fileData.split(',')[1] : fileData);
+
+    const targetFolderId = folderId
+      || (folderName ? await resolveDriveFolder(accessToken, folderName, options) : undefined)
+      || options.defaultFolderId;
+
+    const metadata = {
+      name: fileName,
+      mimeType,
+      ...(targetFolderId ? { parents: [targetFolderId] } : {}),
+    };
+
+    const boundary = `content-automator-${Date.now().toString(16)}`;
+    const body = new Blob([
+      `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n`,
+      `--${boundary}\r\nContent-Type: ${mimeType}\r\n\r\n`,
+      fileBytes,
+      `\r\n--${boundary}--`,
+    ]);
+
+    const file = await driveRequest<{ id: string, webViewLink?: string }>(
+      accessToken,
+      '/upload/drive/v3/files?uploadType=multipart&fields=id,webViewLink',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        body,
+      },
+      options,
+    );
+
+    return {
+      id: file.id,
+      webViewLink: file.webViewLink || `https://drive.google.com/file/d/${file.id}/view`,
+    };
+};
@@ -0,0 +1,148 @@
+import { classifyError, describeError } from './apiErrors';
+import { backoffDelay } from './geminiRetry';
+import type { RetryOptions } from './geminiRetry';
+
+// A small client-side queue for batches of slow API calls, such as rendering every image of a
+// storyboard. At most `concurrency` jobs run at once; failures that are worth retrying go back
+// into the queue after a backoff delay, and everything else is reported in the final states.
+// Calls cannot be aborted, and each one is paid for, so a call that completes after a cancel
+// still delivers its result.
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface Job<T> {
+  id: string;
+  /** Shown in progress and failure summaries. */
+  label: string;
+  run: () => Promise<T>;
+  /** Receives the result, also when the queue was cancelled while the job ran. */
+  onDone: (result: T) => void;
+}
+
+export interface JobState {
+  id: string;
+  label: string;
+  status: JobStatus;
+  /** Attempts started so far, including the one running now. */
+  attempts: number;
+  /** Why the last attempt failed, phrased for the person using the app. */
+  error?: string;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  /** Retries per job and their backoff; only transient failures are retried. */
+  retryOptions: RetryOptions;
+  /** Called with a fresh copy of every job's state whenever one changes. */
+  onUpdate: (jobs: JobState[]) => void;
+}
+
+export interface JobQueue {
+  setConcurrency: (concurrency: number) => void;
+  /** Stops starting new jobs; running ones finish. */
+  pause: () => void;
+  resume: () => void;
+  /** Drops waiting jobs. Running jobs finish, and their results are still delivered. */
+  cancel: () => void;
+  /** Resolves with the final state of every job once none is queued, running or waiting to retry. */
+  finished: Promise<JobState[]>;
+}
+
+// Each call is already retried on the server, so a job that still fails waits longer before going again.
+export const DEFAULT_JOB_RETRY_OPTIONS: RetryOptions = { maxRetries: 2, baseDelayMs: 2000, maxDelayMs: 15000 };
+
+const isSettled = (status: JobStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+export const createJobQueue = <T>(jobs: Job<T>[], options: JobQueueOptions): JobQueue => {
+  const states = new Map<string, JobState>(jobs.map(job => [job.id, { id: job.id, label: job.label, status: 'queued', attempts: 0 }]));
+  const pending = jobs.map(job => job.id);
+  const byId = new Map(jobs.map(job => [job.id, job]));
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  let concurrency = Math.max(1, options.concurrency);
+  let running = 0;
+  let paused = false;
+  let cancelled = false;
+  let resolveFinished: (jobs: JobState[]) => void = () => {};
+  const finished = new Promise<JobState[]>(resolve => { resolveFinished = resolve; });
+
+  const snapshot = () => jobs.map(job => ({ ...states.get(job.id)! }));
+
+  const update = (id: string, changes: Partial<JobState>) => {
+    states.set(id, { ...states.get(id)!, ...changes });
+    options.onUpdate(snapshot());
+  };
+
+  const checkFinished = () => {
+    if (jobs.every(job => isSettled(states.get(job.id)!.status))) resolveFinished(snapshot());
+  };
+
+  const runJob = async (job: Job<T>) => {
+    running++;
+    const attempts = states.get(job.id)!.attempts + 1;
+    update(job.id, { status: 'running', attempts, error: undefined });
+    try {
+      const result = await job.run();
+      job.onDone(result);
+      update(job.id, { status: 'done' });
+    } catch (error) {
+      const apiError = classifyError(error);
+      const message = describeError(apiError, 'The request failed.');
+      if (cancelled) {
+        update(job.id, { error: message });
+      } else if (apiError.retryable && attempts <= options.retryOptions.maxRetries) {
+        update(job.id, { status: 'retrying', error: message });
+        retryTimers.set(job.id, setTimeout(() => {
+          retryTimers.delete(job.id);
+          pending.push(job.id);
+          update(job.id, { status: 'queued' });
+          pump();
+        }, backoffDelay(attempts - 1, options.retryOptions)));
+      } else {
+        update(job.id, { status: 'failed', error: message });
+      }
+    } finally {
+      running--;
+      if (cancelled && states.get(job.id)!.status === 'running') update(job.id, { status: 'cancelled' });
+      pump();
+      checkFinished();
+    }
+  };
+
+  const pump = () => {
+    while (!paused && !cancelled && running < concurrency && pending.length > 0) {
+      runJob(byId.get(pending.shift()!)!);
+    }
+  };
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    retryTimers.forEach(timer => clearTimeout(timer));
+    retryTimers.clear();
+    pending.length = 0;
+    for (const job of jobs) {
+      const { status } = states.get(job.id)!;
+      if (status === 'queued' || status === 'retrying') states.set(job.id, { ...states.get(job.id)!, status: 'cancelled' });
+    }
+    options.onUpdate(snapshot());
+    checkFinished();
+  };
+
+  options.onUpdate(snapshot());
+  pump();
+  checkFinished();
+
+  return {
+    setConcurrency: value => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    pause: () => { paused = true; },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel,
+    finished,
+  };
+};
@@ -0,0 +1,228 @@
+import { Type } from "@google/genai";
+import type { Schema as ResponseSchema } from "@google/genai";
+import type { AIProvider, ImageOutput, JsonRequest } from './aiProvider';
+
+// Deterministic offline stand-in for Gemini (AI_PROVIDER=mock). The same request always
+// produces the same answer, so the app can be run, demoed and tested without an API key.
+
+const QUOTES = [
+  "Every dollar you save today is a soldier working for your freedom tomorrow.",
+  "Wealth is built in the quiet moments when you choose discipline over impulse.",
+  "Your income is what you earn; your wealth is what you keep and grow.",
+  "Small, consistent deposits compound into life-changing results.",
+  "Invest in yourself first. It pays the highest interest.",
+];
+
+const TIPS = [
+  "Automate a transfer to savings on payday so you pay yourself before anything else.",
+  "Review your subscriptions this week and cancel any you haven't used in the last month.",
+  "Build a starter emergency fund of one month's expenses before investing aggressively.",
+  "Pay more than the minimum on your highest-interest debt first.",
+  "Track every expense for 30 days to see where your money really goes.",
+];
+
+// Canned values keyed by property path (most specific) or property name. Lists are indexed by array position.
+const CANNED: Record<string, string | string[]> = {
+  sceneTitle: ['The Quiet Decision', 'Building Momentum', 'The View From the Top'],
+  duration: '8s',
+  dialog: ['"It starts with one choice."', '"Every step counts."', '"This is what freedom feels like."'],
+  'camera.movement': ['slow dolly-in', 'smooth tracking shot', 'crane shot rising up'],
+  'camera.angle': ['eye-level', 'low-angle shot', 'wide establishing shot'],
+  'camera.lighting': ['soft morning light', 'warm afternoon glow', 'golden hour sunlight'],
+  'setting.location': ['a tidy home office', 'a busy city street', 'a rooftop terrace overlooking the skyline'],
+  'setting.props': ['notebook', 'coffee cup', 'laptop'],
+  'setting.weather': ['clear and calm', 'bright and breezy', 'clear and warm'],
+  action: ['A young professional opens a savings app and sets a goal.', 'She walks with purpose past storefronts without stopping.', 'She looks out over the city and smiles.'],
+  visualCues: ['shallow depth of field', 'subtle lens flare', 'slow motion'],
+  'textOverlay.content': ['Small steps,', 'repeated daily,', 'build lasting wealth.'],
+  'textOverlay.style': ['elegant serif', 'bold sans-serif', 'elegant script'],
+  'textOverlay.transition': ['fade-in', 'slide from left', 'gentle zoom'],
+  mood: ['reflective', 'determined', 'triumphant'],
+  'audio.music': ['soft piano', 'building strings', 'uplifting orchestral swell'],
+  'audio.sfx': ['pen on paper', 'city ambience', 'wind on the rooftop'],
+  thumbnailPrompt: 'A cinematic movie-poster shot of the main character silhouetted against a sunrise skyline, bold and hopeful.',
+  'scenes.description': ['The hero faces a moment of doubt.', 'A small decision changes everything.', 'The hard work begins to pay off.', 'An unexpected setback tests their resolve.', 'The hero celebrates a hard-won victory.'],
+  'scenes.visuals': ['Wide shot of a dim apartment at dawn, the hero at a kitchen table, soft window light.', 'Close-up on hands writing a plan in a notebook, shallow depth of field.', 'Tracking shot through a busy street, the hero walking with purpose.', 'Low-angle shot in the rain, the hero pausing under a streetlight.', 'Golden hour on a rooftop, slow push-in on the hero smiling.'],
+  'scenes.dialogue': ['"Something has to change."', '"One step at a time."', 'N/A', '"Not today."', '"We made it."'],
+  'scenes.sound': ['Quiet ambient hum, distant traffic.', 'Soft piano, pencil scratching.', 'Upbeat percussion, city ambience.', 'Rain and a low cello note.', 'Full orchestral swell.'],
+  captions: [
+    'Read that again. The habits nobody sees are the ones that change everything.\n\nWhich one are you starting this week?',
+    'Saving this for the days motivation runs low. Consistency beats intensity every time.',
+    'Small choices, repeated daily. That is the whole secret.',
+  ],
+  hashtags: ['#motivation', '#personalfinance', '#moneymindset', '#financialfreedom', '#dailyquotes'],
+  cta: 'Save this post and share it with someone who needs it today.',
+  altText: 'A calm sunrise over a city skyline with the quote in white serif letters across the centre.',
+  title: ['Batch Your Week', 'Template Everything', 'Schedule Ahead', 'Recycle Top Performers'],
+  description: ['* Generate a week of quotes in one sitting\n* Review them together', '* Save reusable prompt templates\n* Keep visuals on-brand', '* Queue posts in advance\n* Post at peak hours', '* Track which posts perform best\n* Remix them into new formats'],
+};
+
+/** FNV-1a: a small, stable string hash used to make every mock answer deterministic. */
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(list: readonly T[], index: number): T => list[index % list.length];
+
+const cannedValue = (path: string[]): string | string[] | undefined =>
+  CANNED[path.filter(segment => segment !== '[]').slice(-2).join('.')] ?? CANNED[path[path.length - 1]];
+
+/** Builds a value that satisfies `schema`, filled from CANNED where possible. */
+const synthesize = (schema: ResponseSchema, path: string[], index: number): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        result[key] = synthesize(child, [...path, key], index);
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      const canned = cannedValue(path);
+      if (Array.isArray(canned) && schema.items?.type === Type.STRING && !schema.minItems) return canned;
+      const count = Number(schema.minItems ?? schema.maxItems ?? 3);
+      return Array.from({ length: count }, (_, i) => synthesize(schema.items ?? { type: Type.STRING }, [...path, '[]'], i));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return index + 1;
+    case Type.BOOLEAN:
+      return index % 2 === 0;
+    default: {
+      if (schema.enum?.length) return pick(schema.enum, index);
+      const canned = cannedValue(path);
+      if (typeof canned === 'string') return canned;
+      if (Array.isArray(canned)) return pick(canned, index);
+      return `Sample ${path.filter(segment => segment !== '[]').join(' ') || 'text'} ${index + 1}`;
+    }
+  }
+};
+
+// --- Placeholder PNG encoder (uncompressed deflate, so it runs the same in Node and the browser) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1, b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+const uint32 = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concatBytes([new TextEncoder().encode(type), data]);
+  return concatBytes([uint32(data.length), typeAndData, uint32(crc32(typeAndData))]);
+};
+
+const zlibStored = (raw: Uint8Array): Uint8Array => {
+  const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+  for (let offset = 0; offset < raw.length || offset === 0; offset += 0xffff) {
+    const block = raw.subarray(offset, offset + 0xffff);
+    const isLast = offset + 0xffff >= raw.length;
+    blocks.push(new Uint8Array([isLast ? 1 : 0, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff]), block);
+  }
+  blocks.push(uint32(adler32(raw)));
+  return concatBytes(blocks);
+};
+
+type Dimensions = { width: number, height: number };
+
+const dimensionsFor = (aspectRatio = '1:1', longSide = 256): Dimensions => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longSide, height: longSide };
+  return w >= h
+    ? { width: longSide, height: Math.max(1, Math.round((longSide * h) / w)) }
+    : { width: Math.max(1, Math.round((longSide * w) / h)), height: longSide };
+};
+
+/** Reads width and height from a base64 PNG's IHDR chunk, so edits keep the source's shape. */
+const pngDimensions = (base64: string): Dimensions | undefined => {
+  const header = atob(base64.slice(0, 32));
+  if (header.length < 24 || header.slice(1, 4) !== 'PNG') return undefined;
+  const readUint32 = (offset: number) =>
+    ((header.charCodeAt(offset) << 24) | (header.charCodeAt(offset + 1) << 16) | (header.charCodeAt(offset + 2) << 8) | header.charCodeAt(offset + 3)) >>> 0;
+  const width = readUint32(16), height = readUint32(20);
+  if (!width || !height) return undefined;
+  // Keep placeholders small even when the source is a full-size photo.
+  const scale = Math.min(1, 256 / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** A diagonal two-colour gradient whose colours are derived from `seed`. */
+const placeholderPng = (seed: number, { width, height }: Dimensions): ImageOutput => {
+  const from = [(seed >>> 16) & 0xff, (seed >>> 8) & 0xff, seed & 0xff];
+  const to = from.map(channel => 255 - channel);
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      for (let c = 0; c < 3; c++) raw[row + 1 + x * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+    }
+  }
+  const header = concatBytes([uint32(width), uint32(height), new Uint8Array([8, 2, 0, 0, 0])]);
+  const png = concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStored(raw)),
+    pngChunk('IEND', new Uint8Array()),
+  ]);
+
+  let binary = '';
+  for (const byte of png) binary += String.fromCharCode(byte);
+  const data = btoa(binary);
+  return { mimeType: 'image/png', data, dataUrl: `data:image/png;base64,${data}` };
+};
+
+// Only the opening instruction says which kind of post is wanted; brand guidelines further down may mention either.
+const postsFor = (prompt: string) => (/\btips?\b/i.test(prompt.split('\n')[0]) ? TIPS : QUOTES);
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  generateText: async ({ prompt }) => pick(postsFor(prompt), hash(prompt)),
+
+  generateJson: async <T>({ schema, prompt }: JsonRequest) => {
+    // A bare list of strings is a batch of posts. The canned lists are short, so larger batches repeat (which de-duplication should catch).
+    if (schema.type === Type.ARRAY && schema.items?.type === Type.STRING) {
+      const start = hash(prompt);
+      return Array.from({ length: Number(schema.minItems ?? 3) }, (_, i) => pick(postsFor(prompt), start + i)) as T;
+    }
+    return synthesize(schema, [], 0) as T;
+  },
+
+  generateImage: async ({ prompt, images = [], aspectRatio }) =>
+    placeholderPng(hash(prompt + images.map(image => image.data.length).join(',')), dimensionsFor(aspectRatio)),
+
+  editImage: async ({ image, prompt }) =>
+    placeholderPng(hash(prompt + image.data.slice(0, 64)), (image.mimeType === 'image/png' && pngDimensions(image.data)) || dimensionsFor()),
+});
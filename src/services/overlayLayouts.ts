@@ -0,0 +1,96 @@
+import type { OverlayLayout } from '../types';
+import { string, number, boolean, oneOf, optional, array, object, validate } from '../utils/validation';
+import type { Infer, Schema } from '../utils/validation';
+import { readStoredJson, writeStoredJson } from '../utils/localStore';
+
+// Named overlay designs saved from the designer, so one layout can be applied to many images.
+
+const LAYOUTS_KEY = 'content-automator.overlay-layouts';
+
+export interface SavedOverlayLayout {
+  id: string;
+  name: string;
+  layout: OverlayLayout;
+}
+
+/** Most text boxes one design may hold, and longest text one box may hold. */
+export const MAX_OVERLAY_BOXES = 20;
+export const MAX_OVERLAY_TEXT_LENGTH = 2000;
+
+const fraction = number({ min: 0, max: 1 });
+const color = string({ maxLength: 100 });
+
+export const textStyleSchema = object({
+  fontFamily: string({ minLength: 1, maxLength: 100 }),
+  fontWeight: number({ integer: true, min: 100, max: 900 }),
+  italic: boolean(),
+  fontSize: optional(number({ min: 0, max: 1 })),
+  lineHeight: number({ min: 0.5, max: 3 }),
+  color,
+  align: oneOf(['left', 'center', 'right'] as const),
+  shadow: optional(object({ color, blur: number({ min: 0 }), offset: number() })),
+  stroke: optional(object({ color, width: number({ min: 0 }) })),
+  scrim: optional(object({ color, opacity: fraction, padding: number({ min: 0 }) })),
+});
+
+export const overlayLayoutSchema = object({
+  boxes: array(object({
+    id: string({ minLength: 1 }),
+    role: oneOf(['quote', 'secondary'] as const),
+    text: string({ maxLength: MAX_OVERLAY_TEXT_LENGTH }),
+    x: fraction,
+    y: fraction,
+    width: fraction,
+    height: fraction,
+    style: textStyleSchema,
+  }), { maxLength: MAX_OVERLAY_BOXES }),
+});
+
+const savedLayoutSchema = object({
+  id: string({ minLength: 1 }),
+  name: string({ minLength: 1, maxLength: 100 }),
+  layout: overlayLayoutSchema,
+});
+
+// Each saved design is checked on its own, so one that does not validate is dropped without
+// taking the others with it.
+const savedLayoutsSchema: Schema<Infer<typeof savedLayoutSchema>[]> = (value, field, issues) => {
+  if (!Array.isArray(value)) return array(savedLayoutSchema)(value, field, issues);
+  return value.flatMap(entry => {
+    const result = validate(savedLayoutSchema, entry);
+    return result.ok ? [result.value] : [];
+  });
+};
+
+// Optional style fields are stored as null; validation reads them back as undefined.
+export const fromStoredLayout = (layout: Infer<typeof overlayLayoutSchema>): OverlayLayout => ({
+  boxes: layout.boxes.map(box => ({
+    ...box,
+    style: {
+      ...box.style,
+      fontSize: box.style.fontSize ?? null,
+      shadow: box.style.shadow ?? null,
+      stroke: box.style.stroke ?? null,
+      scrim: box.style.scrim ?? null,
+    },
+  })),
+});
+
+/** The reverse of `fromStoredLayout`, for formats such as project files that hold a layout as validated data. */
+export const toStoredLayout = (layout: OverlayLayout): Infer<typeof overlayLayoutSchema> => ({
+  boxes: layout.boxes.map(box => ({
+    ...box,
+    style: {
+      ...box.style,
+      fontSize: box.style.fontSize ?? undefined,
+      shadow: box.style.shadow ?? undefined,
+      stroke: box.style.stroke ?? undefined,
+      scrim: box.style.scrim ?? undefined,
+    },
+  })),
+});
+
+export const loadOverlayLayouts = (): SavedOverlayLayout[] =>
+  readStoredJson(LAYOUTS_KEY, savedLayoutsSchema, []).map(saved => ({ ...saved, layout: fromStoredLayout(saved.layout) }));
+
+export const saveOverlayLayouts = (layouts: SavedOverlayLayout[]) => writeStoredJson(LAYOUTS_KEY, layouts);
@@ -0,0 +1,93 @@
+import JSZip from 'jszip';
+import type { AspectRatio, BrandKit, PostCopy, SafeZone, TextOverlayStyle } from '../types';
+import { loadImage, parseDataUrl } from '../utils/fileUtils';
+import { drawTextOverlay, loadOverlayFont } from '../utils/textOverlay';
+import { smartCropRect } from '../utils/smartCrop';
+import { drawWatermark, hasWatermark, loadWatermark } from '../utils/watermark';
+import { formatPostCopy } from './postCopy';
+
+// One quote, every platform size. Each preset is cut from a background (the original image, or a
+// fresh one generated at the nearest aspect ratio) and the quote is laid out again inside the
+// platform's safe zone, so captions and buttons never cover it.
+
+export interface PlatformPreset {
+  id: string;
+  platform: string;
+  name: string;
+  width: number;
+  height: number;
+  /** The closest ratio the image model can generate, for presets that get their own background. */
+  aspectRatio: AspectRatio;
+  safeZone: SafeZone;
+}
+
+const uniform = (inset: number): SafeZone => ({ top: inset, right: inset, bottom: inset, left: inset });
+
+export const PLATFORM_PRESETS: PlatformPreset[] = [
+  { id: 'instagram-feed-portrait', platform: 'Instagram', name: 'Feed portrait', width: 1080, height: 1350, aspectRatio: '3:4', safeZone: uniform(0.05) },
+  { id: 'instagram-feed-square', platform: 'Instagram', name: 'Feed square', width: 1080, height: 1080, aspectRatio: '1:1', safeZone: uniform(0.05) },
+  // Stories and Reels: profile row at the top, reply box and caption at the bottom.
+  { id: 'instagram-story', platform: 'Instagram', name: 'Stories / Reels', width: 1080, height: 1920, aspectRatio: '9:16', safeZone: { top: 0.13, right: 0.06, bottom: 0.2, left: 0.06 } },
+  // Caption and sound at the bottom, action buttons down the right edge.
+  { id: 'tiktok', platform: 'TikTok', name: 'Video cover', width: 1080, height: 1920, aspectRatio: '9:16', safeZone: { top: 0.08, right: 0.14, bottom: 0.22, left: 0.06 } },
+  // The duration badge sits in the bottom-right corner.
+  { id: 'youtube-thumbnail', platform: 'YouTube', name: 'Thumbnail', width: 1280, height: 720, aspectRatio: '16:9', safeZone: { top: 0.05, right: 0.05, bottom: 0.14, left: 0.05 } },
+  { id: 'pinterest-pin', platform: 'Pinterest', name: 'Standard pin', width: 1000, height: 1500, aspectRatio: '3:4', safeZone: { top: 0.05, right: 0.05, bottom: 0.1, left: 0.05 } },
+  { id: 'linkedin-post', platform: 'LinkedIn', name: 'Shared image', width: 1200, height: 627, aspectRatio: '16:9', safeZone: uniform(0.05) },
+  { id: 'x-post', platform: 'X', name: 'In-stream image', width: 1600, height: 900, aspectRatio: '16:9', safeZone: uniform(0.05) },
+];
+
+const folderName = (value: string) => value.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+
+/** Where a preset's image goes in the ZIP: one folder per platform. */
+export const platformImagePath = (preset: PlatformPreset): string =>
+  `${folderName(preset.platform)}/${preset.id}-${preset.width}x${preset.height}.png`;
+
+/** Crops `background` to the preset's exact size, then typesets the quote and watermark inside its safe zone. */
+export const renderPlatformImage = async (
+  background: string,
+  preset: PlatformPreset,
+  quote: string,
+  style: TextOverlayStyle,
+  brandKit?: BrandKit,
+): Promise<string> => {
+  const [image, logo] = await Promise.all([
+    loadImage(background),
+    hasWatermark(brandKit) ? loadWatermark(brandKit) : null,
+    loadOverlayFont(style),
+  ]);
+  const canvas = document.createElement('canvas');
+  canvas.width = preset.width;
+  canvas.height = preset.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  const crop = smartCropRect(image, preset.width, preset.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, preset.width, preset.height);
+  drawTextOverlay(ctx, preset.width, preset.height, quote, style, preset.safeZone);
+  if (hasWatermark(brandKit)) drawWatermark(ctx, preset.width, preset.height, brandKit, logo, preset.safeZone);
+  return canvas.toDataURL('image/png');
+};
+
+export interface PlatformZipOptions {
+  quote: string;
+  presets: PlatformPreset[];
+  backgroundFor: (preset: PlatformPreset) => string;
+  style: TextOverlayStyle;
+  brandKit?: BrandKit;
+  /** Written to the ZIP as post-copy.txt alongside the images. */
+  postCopy?: PostCopy;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Renders every preset and packs them into one ZIP, organised by platform. */
+export const createPlatformZip = async ({ quote, presets, backgroundFor, style, brandKit, postCopy, onProgress }: PlatformZipOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const [index, preset] of presets.entries()) {
+    const image = await renderPlatformImage(backgroundFor(preset), preset, quote, style, brandKit);
+    zip.file(platformImagePath(preset), parseDataUrl(image).data, { base64: true });
+    onProgress?.(index + 1, presets.length);
+  }
+  if (postCopy) zip.file('post-copy.txt', formatPostCopy(postCopy));
+  return zip.generateAsync({ type: 'blob' });
+};
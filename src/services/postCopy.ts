@@ -0,0 +1,20 @@
+import type { PostCopy } from '../types';
+import { PLATFORM_COPY_LIMITS } from './apiActions';
+
+// Plain-text forms of generated post copy, for the clipboard and for export files.
+
+/** One caption with the call to action and hashtags, ready to paste into the platform. */
+export const composePost = (copy: PostCopy, captionIndex = 0): string =>
+  [copy.captions[captionIndex] ?? '', copy.cta, copy.hashtags.join(' ')].filter(Boolean).join('\n\n');
+
+/** Every caption variant, the hashtags, CTA and alt text as a readable text file. */
+export const formatPostCopy = (copy: PostCopy): string => {
+  const sections = [
+    `Platform: ${PLATFORM_COPY_LIMITS[copy.platform].name}`,
+    ...copy.captions.map((caption, index) => `Caption ${index + 1}:\n${caption}`),
+    `Call to action:\n${copy.cta}`,
+    `Hashtags:\n${copy.hashtags.join(' ')}`,
+    `Alt text:\n${copy.altText}`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+};
@@ -0,0 +1,281 @@
+import JSZip from 'jszip';
+import type { AspectRatio, GeneratedImages, SceneCard, ThumbnailData, VideoPrompt, VideoPromptSettings } from '../types';
+import { string, number, boolean, oneOf, dataUrl, optional, array, object, validate, formatIssues } from '../utils/validation';
+import type { Infer } from '../utils/validation';
+import { parseDataUrl } from '../utils/fileUtils';
+import { ASPECT_RATIOS, EMOJI_DENSITIES, MAX_CLIP_SECONDS, MAX_VIDEO_CLIPS, SOCIAL_PLATFORMS, VIDEO_MODELS } from './apiActions';
+import { fromStoredLayout, overlayLayoutSchema, toStoredLayout } from './overlayLayouts';
+
+// Portable project files, so a content package can be handed to someone else and reopened with
+// full fidelity. A ".json" project carries its images inline as data URLs; a ".zip" project holds
+// the same project.json with every image stored as a separate file under images/.
+
+export const PROJECT_FORMAT = 'content-automator-project';
+/**
+ * Bump when the format changes; older files must keep importing.
+ * v2 added post copy, the uploaded-background flag, the overlay design and the video prompt settings.
+ */
+export const PROJECT_VERSION = 2;
+
+const PROJECT_JSON = 'project.json';
+const IMAGES_DIR = 'images/';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const text = string({ maxLength: 20000 });
+const image = optional(dataUrl('image/'));
+
+const videoPromptSchema = object({
+  sceneTitle: text,
+  duration: text,
+  dialog: text,
+  camera: object({ movement: text, angle: text, lighting: text }),
+  setting: object({ location: text, props: array(text), weather: text }),
+  action: text,
+  visualCues: text,
+  textOverlay: object({ content: text, style: text, transition: text }),
+  mood: text,
+  audio: object({ music: text, sfx: text }),
+});
+
+const projectSchema = object({
+  format: oneOf([PROJECT_FORMAT] as const),
+  version: number({ integer: true, min: 1, max: PROJECT_VERSION }),
+  name: text,
+  exportedAt: text,
+  content: object({
+    quote: text,
+    images: object({ withOverlay: image, withoutOverlay: image, uploaded: optional(boolean()), overlayLayout: optional(overlayLayoutSchema) }),
+    postCopy: optional(object({
+      platform: oneOf(SOCIAL_PLATFORMS),
+      emojiDensity: oneOf(EMOJI_DENSITIES),
+      captions: array(text),
+      hashtags: array(text),
+      cta: text,
+      altText: text,
+    })),
+    videoPrompts: array(videoPromptSchema),
+    videoSettings: optional(object({
+      clipCount: number({ integer: true, min: 1, max: MAX_VIDEO_CLIPS }),
+      clipSeconds: number({ min: 1, max: MAX_CLIP_SECONDS }),
+      targetSeconds: optional(number({ min: 1, max: MAX_VIDEO_CLIPS * MAX_CLIP_SECONDS })),
+      model: oneOf(VIDEO_MODELS),
+    })),
+  }),
+  storyboard: optional(object({
+    topic: text,
+    tone: text,
+    characterGender: oneOf(['male', 'female'] as const),
+    aspectRatio: oneOf(ASPECT_RATIOS),
+    characterImage: image,
+    thumbnail: optional(object({ prompt: text, imageUrl: image })),
+    scenes: array(object({
+      sceneNumber: number({ integer: true, min: 1 }),
+      description: text,
+      visuals: text,
+      dialogue: text,
+      sound: text,
+      imageUrl: image,
+    })),
+  })),
+});
+
+export type Project = Infer<typeof projectSchema>;
+
+/** Everything a project captures, as the app holds it. */
+export interface ProjectSnapshot {
+  name: string;
+  quote: string;
+  images: GeneratedImages;
+  videoPrompts: VideoPrompt[];
+  /** What the video prompts were written with; absent in projects without prompts and in v1 files. */
+  videoSettings?: VideoPromptSettings;
+  storyboard?: {
+    topic: string;
+    tone: string;
+    characterGender: 'male' | 'female';
+    aspectRatio: AspectRatio;
+    characterImage: string | null;
+    thumbnail: ThumbnailData | null;
+    scenes: SceneCard[];
+  };
+}
+
+export const createProject = (snapshot: ProjectSnapshot): Project => {
+  const { storyboard } = snapshot;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: snapshot.name,
+    exportedAt: new Date().toISOString(),
+    content: {
+      quote: snapshot.quote,
+      images: {
+        withOverlay: snapshot.images.withOverlay || undefined,
+        withoutOverlay: snapshot.images.withoutOverlay || undefined,
+        uploaded: snapshot.images.uploaded,
+        overlayLayout: snapshot.images.overlayLayout && toStoredLayout(snapshot.images.overlayLayout),
+      },
+      postCopy: snapshot.images.postCopy,
+      videoPrompts: snapshot.videoPrompts,
+      videoSettings: snapshot.videoSettings,
+    },
+    storyboard: storyboard && {
+      topic: storyboard.topic,
+      tone: storyboard.tone,
+      characterGender: storyboard.characterGender,
+      aspectRatio: storyboard.aspectRatio,
+      characterImage: storyboard.characterImage ?? undefined,
+      thumbnail: storyboard.thumbnail ? { prompt: storyboard.thumbnail.prompt, imageUrl: storyboard.thumbnail.imageUrl ?? undefined } : undefined,
+      scenes: storyboard.scenes.map(({ sceneNumber, description, visuals, dialogue, sound, imageUrl }) =>
+        ({ sceneNumber, description, visuals, dialogue, sound, imageUrl: imageUrl ?? undefined })),
+    },
+  };
+};
+
+/** Converts an imported project back into the shape the app holds. */
+export const projectToSnapshot = (project: Project): ProjectSnapshot => {
+  const { storyboard } = project;
+  return {
+    name: project.name,
+    quote: project.content.quote,
+    images: {
+      withOverlay: project.content.images.withOverlay ?? '',
+      withoutOverlay: project.content.images.withoutOverlay ?? '',
+      postCopy: project.content.postCopy,
+      uploaded: project.content.images.uploaded,
+      overlayLayout: project.content.images.overlayLayout && fromStoredLayout(project.content.images.overlayLayout),
+    },
+    videoPrompts: project.content.videoPrompts,
+    videoSettings: project.content.videoSettings,
+    storyboard: storyboard && {
+      topic: storyboard.topic,
+      tone: storyboard.tone,
+      characterGender: storyboard.characterGender,
+      aspectRatio: storyboard.aspectRatio,
+      characterImage: storyboard.characterImage ?? null,
+      thumbnail: storyboard.thumbnail ? { prompt: storyboard.thumbnail.prompt, imageUrl: storyboard.thumbnail.imageUrl ?? null } : null,
+      scenes: storyboard.scenes.map(scene => ({ ...scene, imageUrl: scene.imageUrl ?? null })),
+    },
+  };
+};
+
+/** A file-system-friendly version of the project name. */
+export const projectFileName = (project: Project, extension: 'json' | 'zip'): string =>
+  `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'project'}.${extension}`;
+
+export const exportProjectJson = (project: Project): Blob =>
+  new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+
+const extensionFor = (mimeType: string) => (mimeType.split('/')[1] || 'png').replace('jpeg', 'jpg').replace(/\+.*/, '');
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+// Every image field in a project with a getter and setter, so export and import walk the same fields.
+// Import walks the manifest before it is validated, so every level is checked before it is entered.
+const imageSlots = (project: Project): { name: string, get: () => unknown, set: (value: string) => void }[] => {
+  const { content, storyboard } = project;
+  const slots: { name: string, get: () => unknown, set: (value: string) => void }[] = [];
+  if (isObject(content) && isObject(content.images)) {
+    const { images } = content;
+    slots.push(
+      { name: 'with-overlay', get: () => images.withOverlay, set: value => { images.withOverlay = value; } },
+      { name: 'without-overlay', get: () => images.withoutOverlay, set: value => { images.withoutOverlay = value; } },
+    );
+  }
+  if (isObject(storyboard)) {
+    slots.push({ name: 'character', get: () => storyboard.characterImage, set: value => { storyboard.characterImage = value; } });
+    const { thumbnail } = storyboard;
+    if (isObject(thumbnail)) slots.push({ name: 'thumbnail', get: () => thumbnail.imageUrl, set: value => { thumbnail.imageUrl = value; } });
+    // Named by position: scene numbers can repeat in a hand-edited file, and a repeat would overwrite an image.
+    if (Array.isArray(storyboard.scenes)) {
+      storyboard.scenes.forEach((scene, index) => {
+        if (!isObject(scene)) return;
+        slots.push({ name: `scene-${String(index + 1).padStart(2, '0')}`, get: () => scene.imageUrl, set: value => { scene.imageUrl = value; } });
+      });
+    }
+  }
+  return slots;
+};
+
+export const exportProjectZip = async (project: Project): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: Project = structuredClone(project);
+  for (const slot of imageSlots(manifest)) {
+    const value = slot.get();
+    if (typeof value !== 'string' || !value) continue;
+    const { mimeType, data } = parseDataUrl(value);
+    const path = `${IMAGES_DIR}${slot.name}.${extensionFor(mimeType)}`;
+    zip.file(path, data, { base64: true });
+    slot.set(path);
+  }
+  zip.file(PROJECT_JSON, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const readZipProject = async (file: Blob): Promise<unknown> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectFileError('The file is not a valid ZIP archive.');
+  }
+  const manifestFile = zip.file(PROJECT_JSON);
+  if (!manifestFile) throw new ProjectFileError(`The ZIP archive has no ${PROJECT_JSON}.`);
+  const manifest = checkFormat(parseJsonText(await manifestFile.async('string')));
+
+  // Swap image paths back to data URLs before validation, which expects inline images.
+  for (const slot of imageSlots(manifest as Project)) {
+    const path = slot.get();
+    if (typeof path !== 'string' || !path.startsWith(IMAGES_DIR)) continue;
+    const entry = zip.file(path);
+    if (!entry) throw new ProjectFileError(`The ZIP archive is missing ${path}.`);
+    slot.set(`data:${mimeTypeFor(path)};base64,${await entry.async('base64')}`);
+  }
+  return manifest;
+};
+
+const mimeTypeFor = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg';
+  if (extension === 'svg') return 'image/svg+xml';
+  return `image/${extension || 'png'}`;
+};
+
+const parseJsonText = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new ProjectFileError('The project file is not valid JSON.');
+  }
+};
+
+// Checked before anything else reads the file, so a file from a newer version is reported as
+// such rather than as damaged.
+const checkFormat = (raw: unknown): unknown => {
+  const { format, version } = (isObject(raw) ? raw : {}) as { format?: unknown, version?: unknown };
+  if (format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This file is not a Motivational Content Automator project.');
+  }
+  if (typeof version !== 'number') throw new ProjectFileError('The project file is damaged: version must be a number.');
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`This project was saved by a newer version of the app (format v${version}). Update the app to open it.`);
+  }
+  return raw;
+};
+
+/** Reads a .json or .zip project, checking its format and version before accepting it. */
+export const importProject = async (file: File): Promise<Project> => {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip = header[0] === 0x50 && header[1] === 0x4b;
+  const raw = isZip ? await readZipProject(file) : checkFormat(parseJsonText(await file.text()));
+
+  const result = validate(projectSchema, raw);
+  if (!result.ok) throw new ProjectFileError(`The project file is damaged: ${formatIssues(result.issues)}`);
+  return result.value;
+};
@@ -0,0 +1,91 @@
+import type { ActionContext, ActionName, ActionPayload, ActionResult } from './apiActions';
+import { ApiError, apiErrorFromResponse, classifyError } from './apiErrors';
+import type { AIProvider } from './aiProvider';
+
+// How the browser reaches the actions. "proxy" posts to the /api/gemini serverless function, which
+// keeps the API key on the server (the Vercel deploy). "direct" runs the same action handlers in the
+// browser against the provider, so `npm run dev` works on its own; the key ships in the bundle, so
+// use it for local development only. Pick one with VITE_API_MODE (default "proxy").
+
+export type TransportMode = 'proxy' | 'direct';
+
+/** Sends an already-validated action and resolves with its response and the models that served it. */
+export type Transport = <A extends ActionName>(action: A, payload: ActionPayload<A>) => Promise<ActionResult<A>>;
+
+export const proxyTransport: Transport = async (action, payload) => {
+  let response: Response;
+  try {
+    response = await fetch('/api/gemini', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, payload }),
+    });
+  } catch (networkError) {
+    throw new ApiError('NETWORK_ERROR', undefined, { cause: networkError });
+  }
+
+  if (!response.ok) {
+    // Platform-level failures (e.g. a function timeout) may not return JSON at all.
+    const errorData = await response.json().catch(() => null);
+    throw apiErrorFromResponse(response.status, errorData);
+  }
+
+  try {
+    return await response.json();
+  } catch (parseError) {
+    throw new ApiError('INVALID_JSON', undefined, { cause: parseError });
+  }
+};
+
+// Vite only exposes VITE_-prefixed variables to the browser, so direct mode reads the same settings as
+// the server under that prefix (VITE_AI_PROVIDER, VITE_GEMINI_MAX_RETRIES, ...) with the key in VITE_GEMINI_API_KEY.
+const browserEnv = (): Record<string, string | undefined> => {
+  const env: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(import.meta.env)) {
+    if (key.startsWith('VITE_') && typeof value === 'string') env[key.slice('VITE_'.length)] = value;
+  }
+  return { ...env, API_KEY: env.GEMINI_API_KEY };
+};
+
+interface DirectRuntime extends Omit<ActionContext, 'provider' | 'modelsUsed'> {
+  getProvider: () => AIProvider;
+}
+
+let directRuntime: Promise<DirectRuntime> | undefined;
+
+// Loaded on first use so the proxy build never pulls the model SDK into the main bundle.
+const loadDirectRuntime = () => (directRuntime ??= Promise.all([
+  import('./aiProvider'),
+  import('./geminiRetry'),
+]).then(([{ createAIProvider }, { retryOptionsFromEnv }]) => {
+  const env = browserEnv();
+  let provider: AIProvider | undefined;
+  return {
+    getProvider: () => (provider ??= createAIProvider(env)),
+    retryOptions: retryOptionsFromEnv(env),
+    drive: { apiBase: env.GOOGLE_DRIVE_API_BASE, defaultFolderId: env.GOOGLE_DRIVE_FOLDER_ID },
+  };
+}));
+
+export const directTransport: Transport = async (action, payload) => {
+  try {
+    const [{ runAction }, { getProvider, retryOptions, drive }] = await Promise.all([import('./actionHandlers'), loadDirectRuntime()]);
+    // Drive uploads need no model, so the provider (and its API key check) is only touched on use.
+    const context: ActionContext = { get provider() { return getProvider(); }, retryOptions, drive, modelsUsed: [] };
+    const result = await runAction(action, payload, context);
+    return { result, modelsUsed: context.modelsUsed, provider: context.modelsUsed.length ? getProvider().name : undefined };
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+export const transportMode = (value: string | undefined): TransportMode => {
+  if (!value || value === 'proxy') return 'proxy';
+  if (value === 'direct') return 'direct';
+  throw new Error(`Unknown VITE_API_MODE "${value}". Use "proxy" or "direct".`);
+};
+
+export const transports: Record<TransportMode, Transport> = {
+  proxy: proxyTransport,
+  direct: directTransport,
+};
@@ -0,0 +1,230 @@
+import { MAX_CLIP_PROPS, MAX_CLIP_SECONDS, MAX_CLIP_TEXT_LENGTH, VIDEO_MODEL_PROFILES } from './apiActions';
+import type { VideoModel, VideoPrompt } from '../types';
+
+// Turns a structured video prompt into the single block of text each target model expects. Models
+// read fields differently: Runway wants the camera move first, Kling subject-motion-scene, and the
+// silent models have no use for dialog or a soundtrack.
+
+const sentence = (text: string) => {
+  const trimmed = text.trim();
+  return !trimmed || /[.!?"]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const props = (prompt: VideoPrompt) => prompt.setting.props.filter(Boolean).join(', ');
+
+const onScreenText = (prompt: VideoPrompt) =>
+  prompt.textOverlay.content ? `On-screen text: "${prompt.textOverlay.content}" (${prompt.textOverlay.style}, ${prompt.textOverlay.transition}).` : '';
+
+const VIDEO_PROMPT_FORMATS: Record<VideoModel, (prompt: VideoPrompt) => string> = {
+  veo: prompt => [
+    sentence(prompt.action),
+    sentence(`Setting: ${prompt.setting.location}, ${prompt.setting.weather}${props(prompt) ? `, with ${props(prompt)}` : ''}`),
+    sentence(`Camera: ${prompt.camera.movement}, ${prompt.camera.angle}`),
+    sentence(`Lighting: ${prompt.camera.lighting}`),
+    sentence(`Style: ${prompt.visualCues}`),
+    sentence(`Mood: ${prompt.mood}`),
+    prompt.dialog && `Dialogue: ${prompt.dialog}`,
+    sentence(`Audio: ${prompt.audio.music}; sound effects: ${prompt.audio.sfx}`),
+    onScreenText(prompt),
+  ].filter(Boolean).join(' '),
+
+  runway: prompt => [
+    `${capitalize(prompt.camera.movement)}: ${sentence(prompt.action)}`,
+    sentence(`${capitalize(prompt.setting.location)}, ${prompt.setting.weather}`),
+    sentence(`${capitalize(prompt.camera.angle)}, ${prompt.camera.lighting}`),
+    sentence(capitalize(prompt.visualCues)),
+    sentence(`${capitalize(prompt.mood)} atmosphere`),
+  ].join(' '),
+
+  kling: prompt => [
+    sentence(prompt.action),
+    sentence(`Scene: ${prompt.setting.location}, ${prompt.setting.weather}${props(prompt) ? `, with ${props(prompt)}` : ''}`),
+    sentence(`Camera: ${prompt.camera.movement}, ${prompt.camera.angle}`),
+    sentence(`Lighting and atmosphere: ${prompt.camera.lighting}, ${prompt.mood}`),
+    sentence(capitalize(prompt.visualCues)),
+  ].join(' '),
+
+  generic: prompt => [
+    `Scene: ${prompt.sceneTitle} (${prompt.duration})`,
+    `Action: ${prompt.action}`,
+    `Setting: ${prompt.setting.location}; ${prompt.setting.weather}${props(prompt) ? `; props: ${props(prompt)}` : ''}`,
+    `Camera: ${prompt.camera.movement}, ${prompt.camera.angle}; lighting: ${prompt.camera.lighting}`,
+    `Visual cues: ${prompt.visualCues}`,
+    `Mood: ${prompt.mood}`,
+    prompt.dialog && `Dialog: ${prompt.dialog}`,
+    `Audio: ${prompt.audio.music}; SFX: ${prompt.audio.sfx}`,
+    onScreenText(prompt),
+  ].filter(Boolean).join('\n'),
+};
+
+/** The prompt as text to paste into the target model. */
+export const formatVideoPrompt = (prompt: VideoPrompt, model: VideoModel): string => VIDEO_PROMPT_FORMATS[model](prompt);
+
+/** Clip length in seconds, read from the "8s"-style duration. */
+export const clipSeconds = (prompt: VideoPrompt): number => parseFloat(prompt.duration) || 0;
+
+/** Dotted paths of the editable VideoPrompt fields, e.g. "camera.movement". */
+export type VideoPromptField =
+  | 'sceneTitle' | 'duration' | 'dialog' | 'action' | 'visualCues' | 'mood'
+  | 'camera.movement' | 'camera.angle' | 'camera.lighting'
+  | 'setting.location' | 'setting.weather' | 'setting.props'
+  | 'textOverlay.content' | 'textOverlay.style' | 'textOverlay.transition'
+  | 'audio.music' | 'audio.sfx';
+
+/**
+ * Problems with a hand-edited prompt, keyed by field; empty when it is ready to save. Silent
+ * models need no dialog or audio, and the on-screen text may be left out entirely.
+ */
+export const videoPromptIssues = (prompt: VideoPrompt, model: VideoModel): Partial<Record<VideoPromptField, string>> => {
+  const issues: Partial<Record<VideoPromptField, string>> = {};
+  const { clipDurations, hasAudio } = VIDEO_MODEL_PROFILES[model];
+  const required: [VideoPromptField, string][] = [
+    ['sceneTitle', prompt.sceneTitle],
+    ['action', prompt.action],
+    ['visualCues', prompt.visualCues],
+    ['mood', prompt.mood],
+    ['camera.movement', prompt.camera.movement],
+    ['camera.angle', prompt.camera.angle],
+    ['camera.lighting', prompt.camera.lighting],
+    ['setting.location', prompt.setting.location],
+    ['setting.weather', prompt.setting.weather],
+  ];
+  if (hasAudio) required.push(['audio.music', prompt.audio.music], ['audio.sfx', prompt.audio.sfx]);
+  if (prompt.textOverlay.content.trim()) {
+    required.push(['textOverlay.style', prompt.textOverlay.style], ['textOverlay.transition', prompt.textOverlay.transition]);
+  }
+  for (const [field, value] of required) {
+    if (!value.trim()) issues[field] = 'Required';
+  }
+
+  const seconds = /^\d+(\.\d+)?s$/.test(prompt.duration.trim()) ? parseFloat(prompt.duration) : NaN;
+  if (Number.isNaN(seconds)) {
+    issues.duration = 'Use seconds, like "8s"';
+  } else if (clipDurations && !clipDurations.includes(seconds)) {
+    issues.duration = `${VIDEO_MODEL_PROFILES[model].name} clips are ${clipDurations.map(option => `${option}s`).join(', ')}`;
+  } else if (seconds < 1 || seconds > MAX_CLIP_SECONDS) {
+    issues.duration = `Between 1s and ${MAX_CLIP_SECONDS}s`;
+  }
+  if (!hasAudio && prompt.dialog.trim()) issues.dialog = `${VIDEO_MODEL_PROFILES[model].name} clips are silent`;
+
+  // The same limits the server checks every request against, so a saved edit cannot fail the next one.
+  const texts: [VideoPromptField, string][] = [
+    ...required,
+    ['duration', prompt.duration],
+    ['dialog', prompt.dialog],
+    ['textOverlay.content', prompt.textOverlay.content],
+    ['textOverlay.style', prompt.textOverlay.style],
+    ['textOverlay.transition', prompt.textOverlay.transition],
+    ['audio.music', prompt.audio.music],
+    ['audio.sfx', prompt.audio.sfx],
+  ];
+  for (const [field, value] of texts) {
+    if (value.length > MAX_CLIP_TEXT_LENGTH) issues[field] = `At most ${MAX_CLIP_TEXT_LENGTH} characters`;
+  }
+  if (prompt.setting.props.length > MAX_CLIP_PROPS) {
+    issues['setting.props'] = `At most ${MAX_CLIP_PROPS} props`;
+  } else if (prompt.setting.props.some(item => item.length > MAX_CLIP_TEXT_LENGTH)) {
+    issues['setting.props'] = `Each prop at most ${MAX_CLIP_TEXT_LENGTH} characters`;
+  }
+  return issues;
+};
+
+export type VideoExportFormat = 'json' | 'text' | 'csv' | 'srt' | 'vtt';
+
+export const VIDEO_EXPORT_FORMATS: Record<VideoExportFormat, { label: string, fileSuffix: string, mimeType: string }> = {
+  json: { label: 'JSON', fileSuffix: 'video_prompts.json', mimeType: 'application/json' },
+  text: { label: 'Text prompts', fileSuffix: 'video_prompts.txt', mimeType: 'text/plain' },
+  csv: { label: 'CSV shot list', fileSuffix: 'shot_list.csv', mimeType: 'text/csv' },
+  srt: { label: 'SRT subtitles', fileSuffix: 'subtitles.srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT subtitles', fileSuffix: 'subtitles.vtt', mimeType: 'text/vtt' },
+};
+
+/** Start and end of every clip in seconds, played back to back. */
+export const clipTimings = (prompts: VideoPrompt[]): { start: number, end: number }[] => {
+  let start = 0;
+  return prompts.map(prompt => {
+    const timing = { start, end: start + clipSeconds(prompt) };
+    start = timing.end;
+    return timing;
+  });
+};
+
+// hh:mm:ss plus milliseconds; SRT separates the milliseconds with a comma, WebVTT with a period.
+const timecode = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const SHOT_LIST_COLUMNS: [string, (prompt: VideoPrompt) => string][] = [
+  ['Scene', prompt => prompt.sceneTitle],
+  ['Duration', prompt => prompt.duration],
+  ['Action', prompt => prompt.action],
+  ['Dialog', prompt => prompt.dialog],
+  ['On-screen text', prompt => prompt.textOverlay.content],
+  ['Text style', prompt => prompt.textOverlay.style],
+  ['Text transition', prompt => prompt.textOverlay.transition],
+  ['Camera movement', prompt => prompt.camera.movement],
+  ['Camera angle', prompt => prompt.camera.angle],
+  ['Lighting', prompt => prompt.camera.lighting],
+  ['Location', prompt => prompt.setting.location],
+  ['Weather', prompt => prompt.setting.weather],
+  ['Props', prompt => prompt.setting.props.join('; ')],
+  ['Visual cues', prompt => prompt.visualCues],
+  ['Mood', prompt => prompt.mood],
+  ['Music', prompt => prompt.audio.music],
+  ['Sound effects', prompt => prompt.audio.sfx],
+];
+
+// A blank line ends a cue and "-->" marks a timing line in both subtitle formats, so cue text may
+// contain neither: blank and whitespace-only lines are dropped and the arrow is swapped for "→".
+const cueText = (text: string) => text
+  .split(/\r\n|\r|\n/)
+  .map(line => line.trim().replace(/-->/g, '→'))
+  .filter(Boolean)
+  .join('\n');
+
+// WebVTT cue text is markup, so a literal "&" or "<" would start an entity or a tag.
+const vttText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// One cue per clip spanning the whole clip: the spoken line first, then the on-screen text.
+const subtitleCues = (prompts: VideoPrompt[]) => {
+  const timings = clipTimings(prompts);
+  return prompts
+    .map((prompt, index) => ({ ...timings[index], lines: [prompt.dialog, prompt.textOverlay.content].map(cueText).filter(Boolean) }))
+    .filter(cue => cue.lines.length > 0 && cue.end > cue.start);
+};
+
+/** The whole sequence in the given export format, as file contents. */
+export const formatVideoPrompts = (prompts: VideoPrompt[], format: VideoExportFormat, model: VideoModel): string => {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(prompts, null, 2)}\n`;
+    case 'text':
+      return `${prompts.map((prompt, index) => `Clip ${index + 1}: ${prompt.sceneTitle} (${prompt.duration})\n${formatVideoPrompt(prompt, model)}`).join('\n\n')}\n`;
+    case 'csv': {
+      const timings = clipTimings(prompts);
+      const header = ['Clip', 'Start', 'End', ...SHOT_LIST_COLUMNS.map(([name]) => name)];
+      const rows = prompts.map((prompt, index) => [
+        index + 1, timecode(timings[index].start, '.'), timecode(timings[index].end, '.'), ...SHOT_LIST_COLUMNS.map(([, read]) => read(prompt)),
+      ]);
+      // The byte order mark makes spreadsheet apps read the file as UTF-8.
+      return `\uFEFF${[header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+    }
+    case 'srt':
+      return subtitleCues(prompts)
+        .map((cue, index) => `${index + 1}\n${timecode(cue.start, ',')} --> ${timecode(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+    case 'vtt':
+      return `WEBVTT\n\n${subtitleCues(prompts)
+        .map(cue => `${timecode(cue.start, '.')} --> ${timecode(cue.end, '.')}\n${cue.lines.map(vttText).join('\n')}\n`)
+        .join('\n')}`;
+  }
+};
@@ -1,3 +1,5 @@
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
 export interface SceneCard {
   sceneNumber: number;
   description: string;
@@ -42,7 +44,245 @@ export interface VideoPrompt {
   };
 }
 
+/** Video model a prompt sequence is written for; each has its own prompt style and clip lengths. */
+export type VideoModel = 'veo' | 'runway' | 'kling' | 'generic';
+
+export interface VideoPromptSettings {
+  clipCount: number;
+  /** Length of each clip in seconds. */
+  clipSeconds: number;
+  /** Total runtime to aim for; clip lengths may vary to reach it. */
+  targetSeconds?: number;
+  model: VideoModel;
+}
+
 export interface Strategy {
   title: string;
   description: string;
-}
\ No newline at end of file
+}
+
+export interface GeneratedImages {
+  withOverlay: string;
+  withoutOverlay: string;
+  /** Set when the overlay was laid out in the designer rather than from a style preset. */
+  overlayLayout?: OverlayLayout;
+  /** Captions, hashtags and alt text written for this image. */
+  postCopy?: PostCopy;
+  /** The background was brought in (uploaded, pasted or sent from the Image Editor) rather than generated, so it stays when the quote changes. */
+  uploaded?: boolean;
+}
+
+// --- Text overlays ---
+
+export type OverlayPosition = 'top' | 'center' | 'bottom' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * How text is typeset onto an image. Sizes are fractions (of the image's shorter side, or of the
+ * font size for effects), so one style renders the same way at any resolution.
+ */
+export interface TextStyle {
+  fontFamily: string;
+  fontWeight: number;
+  italic: boolean;
+  /** Font size as a fraction of the shorter side; null shrinks or grows the text to fit its box. */
+  fontSize: number | null;
+  lineHeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  shadow: { color: string, blur: number, offset: number } | null;
+  stroke: { color: string, width: number } | null;
+  /** Translucent panel behind the text; padding is a fraction of the font size. */
+  scrim: { color: string, opacity: number, padding: number } | null;
+}
+
+/** A text style placed by a positioning preset rather than an explicit box. */
+export interface TextOverlayStyle extends TextStyle {
+  position: OverlayPosition;
+  /** Safe margin kept clear on every side, as a fraction of the shorter side. */
+  margin: number;
+  /** Largest share of the safe area the text may cover. */
+  maxWidth: number;
+  maxHeight: number;
+}
+
+/** Edges covered by a platform's own UI (captions, buttons, timestamps), as fractions of the image's width or height. */
+export interface SafeZone {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** One text box of an overlay design. Position and size are fractions of the image (0 to 1). */
+export interface OverlayTextBox {
+  id: string;
+  /** Quote boxes take the new quote when a design is applied to another image; secondary lines (handle, CTA) keep their text. */
+  role: 'quote' | 'secondary';
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: TextStyle;
+}
+
+/** An overlay design as data, so it can be re-rendered or applied to other images. */
+export interface OverlayLayout {
+  boxes: OverlayTextBox[];
+}
+
+// --- Brand profiles ---
+
+/** The niche and voice of one brand account, injected into every generation prompt. */
+export interface BrandProfile {
+  id: string;
+  name: string;
+  /** What the account posts about, e.g. "personal finance" or "strength training". */
+  topicDomain: string;
+  audience: string;
+  readingLevel: string;
+  tone: string;
+  bannedWords: string[];
+  examplePosts: string[];
+}
+
+// --- Brand kit ---
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** Visual identity stamped onto exported images and fed into image prompts. */
+export interface BrandKit {
+  /** Switches the whole kit off without losing it. */
+  enabled: boolean;
+  /** PNG or SVG data URL. */
+  logo: string | null;
+  /** Social handle drawn next to the logo, e.g. "@newmoneymillionaires". */
+  handle: string;
+  watermark: {
+    position: WatermarkPosition;
+    opacity: number;
+    /** Logo height as a fraction of the image's shorter side. */
+    size: number;
+  };
+  /** Hex colors, primary first. */
+  palette: string[];
+  fonts: { heading: string, body: string };
+  /** Look-and-feel words added to image prompts, e.g. "minimalist", "warm film grain". */
+  styleKeywords: string[];
+}
+
+// --- Post copy ---
+
+export type SocialPlatform = 'instagram' | 'tiktok' | 'youtube' | 'pinterest' | 'linkedin' | 'x' | 'facebook';
+
+export type EmojiDensity = 'none' | 'light' | 'heavy';
+
+/** Ready-to-post text for one image on one platform. */
+export interface PostCopy {
+  platform: SocialPlatform;
+  emojiDensity: EmojiDensity;
+  /** Alternative captions, without hashtags. */
+  captions: string[];
+  /** Each starts with "#"; never more than the platform's limit. */
+  hashtags: string[];
+  cta: string;
+  /** Accessibility description of the image for screen readers. */
+  altText: string;
+}
+
+// --- Image edit history ---
+
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/** Local, non-AI changes applied in the browser, in the order listed. */
+export interface ImageAdjustments {
+  /** Ratio the crop is locked to, e.g. "4:5"; null keeps the image's own ratio. */
+  cropRatio: string | null;
+  /** Share of the largest crop at that ratio that is kept (0.2 to 1). */
+  cropZoom: number;
+  /** Where the crop sits within the slack on each axis (0 to 1, 0.5 is centered). */
+  cropX: number;
+  cropY: number;
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  /** Output width in pixels; null keeps the cropped size. The height follows the ratio. */
+  width: number | null;
+  /** 1 leaves the image unchanged for these three. */
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  /** Blur radius as a fraction of the output's shorter side. */
+  blur: number;
+  /** Darkening toward the corners, 0 to 1. */
+  vignette: number;
+  format: ImageFormat;
+  /** Encoder quality for JPEG and WebP, 0 to 1. */
+  quality: number;
+}
+
+/** One image in the editor's timeline: the upload, or the result of an edit applied to its parent. */
+export interface EditNode {
+  id: string;
+  parentId: string | null;
+  image: string;
+  /** The instruction (or summary of local adjustments) that produced this image; null for the uploaded original. */
+  prompt: string | null;
+  /** Alpha PNG of the region the edit was limited to; unset when it applied to the whole image. */
+  mask?: string;
+  /** Set for local adjustments, which were made in the browser rather than by the model. */
+  adjustments?: ImageAdjustments;
+  createdAt: number;
+}
+
+/** Every image the editor has produced, as a tree rooted at the upload. */
+export interface EditHistory {
+  nodes: EditNode[];
+  currentId: string;
+  /** Nodes stepped back from with undo, most recent first. */
+  redoIds: string[];
+}
+
+// --- Content library ---
+
+export type LibraryItemKind = 'text' | 'image' | 'videoPrompts' | 'storyboard';
+
+interface LibraryItemBase {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  favorite: boolean;
+  tags: string[];
+}
+
+export interface TextLibraryItem extends LibraryItemBase {
+  kind: 'text';
+  data: { type: 'quote' | 'tip'; text: string };
+}
+
+export interface ImageLibraryItem extends LibraryItemBase {
+  kind: 'image';
+  data: { quote: string; aspectRatio: AspectRatio; images: GeneratedImages };
+}
+
+export interface VideoPromptsLibraryItem extends LibraryItemBase {
+  kind: 'videoPrompts';
+  /** `imageUploaded`: the image was brought in rather than generated (see GeneratedImages.uploaded). */
+  data: { quote: string; image: string; imageUploaded?: boolean; prompts: VideoPrompt[]; settings?: VideoPromptSettings };
+}
+
+export interface StoryboardLibraryItem extends LibraryItemBase {
+  kind: 'storyboard';
+  data: {
+    topic: string;
+    tone: string;
+    characterGender: 'male' | 'female';
+    characterImage: string | null;
+    aspectRatio: AspectRatio;
+    thumbnail: ThumbnailData | null;
+    scenes: SceneCard[];
+  };
+}
+
+export type LibraryItem = TextLibraryItem | ImageLibraryItem | VideoPromptsLibraryItem | StoryboardLibraryItem;
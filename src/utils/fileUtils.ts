@@ -15,3 +15,51 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+/** Splits a base64 data URL ("data:image/png;base64,....") into its mime type and payload. */
+export const parseDataUrl = (dataUrl: string): { mimeType: string, data: string } => {
+  const mimeType = dataUrl.substring(dataUrl.indexOf(":") + 1, dataUrl.indexOf(";"));
+  const data = dataUrl.split(',')[1];
+  return { mimeType, data };
+};
+
+/** Loads an image URL (usually a data URL) into a decoded <img> element. */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the image.'));
+    image.src = src;
+  });
+};
+
+/** File extension for an image MIME type, e.g. "jpg" for image/jpeg. */
+export const imageExtension = (mimeType: string): string =>
+  mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1] || 'png';
+
+/** Longest side kept for images brought in from outside the app (uploads, pastes, the editor), so requests and the library stay small. */
+export const MAX_IMPORTED_IMAGE_SIDE = 2048;
+
+/** Re-encodes an image as a JPEG no larger than `maxSide` on its longer side, to keep request bodies small. */
+export const downscaleImage = async (src: string, maxSide: number): Promise<string> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+/** Saves a blob to the user's downloads under `fileName`. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
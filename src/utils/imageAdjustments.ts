@@ -0,0 +1,149 @@
+import type { ImageAdjustments, ImageFormat } from '../types';
+import { loadImage } from './fileUtils';
+import type { Rect } from './textOverlay';
+
+// Crop, rotate, resize, color and format changes made on a canvas in the browser, so quick fixes
+// don't need a model round trip. Steps run in a fixed order: crop, rotate and flip, resize, filters,
+// vignette, encode.
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  cropRatio: null,
+  cropZoom: 1,
+  cropX: 0.5,
+  cropY: 0.5,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  width: null,
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  blur: 0,
+  vignette: 0,
+  format: 'image/png',
+  quality: 0.92,
+};
+
+/** Bounds for the resize width; the editor rejects others and rendering clamps to them. */
+export const MIN_RESIZE_WIDTH = 16;
+export const MAX_RESIZE_WIDTH = 8192;
+
+export const CROP_RATIOS = ['1:1', '4:5', '3:4', '2:3', '9:16', '16:9', '4:3'];
+
+export const IMAGE_FORMATS: { value: ImageFormat, label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+/** Largest "w:h" rectangle that fits the image, scaled by zoom and placed by cropX/cropY, in source pixels. */
+export const cropRect = (adjustments: ImageAdjustments, imageWidth: number, imageHeight: number): Rect => {
+  const [w, h] = (adjustments.cropRatio ?? `${imageWidth}:${imageHeight}`).split(':').map(Number);
+  const ratio = w / h;
+  const fullWidth = Math.min(imageWidth, imageHeight * ratio);
+  const width = Math.max(1, Math.round(fullWidth * adjustments.cropZoom));
+  const height = Math.max(1, Math.round(width / ratio));
+  return {
+    x: Math.round((imageWidth - width) * adjustments.cropX),
+    y: Math.round((imageHeight - height) * adjustments.cropY),
+    width,
+    height,
+  };
+};
+
+/** Output size in pixels after crop, rotation and resize. */
+export const adjustedSize = (adjustments: ImageAdjustments, imageWidth: number, imageHeight: number) => {
+  const crop = cropRect(adjustments, imageWidth, imageHeight);
+  const sideways = adjustments.rotation === 90 || adjustments.rotation === 270;
+  const width = sideways ? crop.height : crop.width;
+  const height = sideways ? crop.width : crop.height;
+  if (!adjustments.width) return { width, height };
+  const resized = Math.min(MAX_RESIZE_WIDTH, Math.max(MIN_RESIZE_WIDTH, adjustments.width));
+  return { width: resized, height: Math.max(1, Math.round(resized * height / width)) };
+};
+
+/** Whether applying would change anything but the encoding; quality only counts for lossy formats. */
+export const isDefaultAdjustments = (adjustments: ImageAdjustments): boolean =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(key =>
+    adjustments[key] === DEFAULT_ADJUSTMENTS[key] || (key === 'quality' && adjustments.format === 'image/png'));
+
+const percent = (value: number) => `${value > 1 ? '+' : ''}${Math.round((value - 1) * 100)}%`;
+
+/** One-line summary used as the history label, e.g. "Crop 4:5, rotate 90°, brightness +10%, JPEG 85%". */
+export const describeAdjustments = (adjustments: ImageAdjustments): string => {
+  const parts: string[] = [];
+  if (adjustments.cropRatio || adjustments.cropZoom < 1) parts.push(`crop ${adjustments.cropRatio ?? 'zoom'}`);
+  if (adjustments.rotation) parts.push(`rotate ${adjustments.rotation}°`);
+  if (adjustments.flipHorizontal) parts.push('flip horizontal');
+  if (adjustments.flipVertical) parts.push('flip vertical');
+  if (adjustments.width) parts.push(`resize to ${adjustments.width}px wide`);
+  if (adjustments.brightness !== 1) parts.push(`brightness ${percent(adjustments.brightness)}`);
+  if (adjustments.contrast !== 1) parts.push(`contrast ${percent(adjustments.contrast)}`);
+  if (adjustments.saturation !== 1) parts.push(`saturation ${percent(adjustments.saturation)}`);
+  if (adjustments.blur > 0) parts.push('blur');
+  if (adjustments.vignette > 0) parts.push('vignette');
+  const format = IMAGE_FORMATS.find(option => option.value === adjustments.format)?.label ?? adjustments.format;
+  parts.push(adjustments.format === 'image/png' ? format : `${format} ${Math.round(adjustments.quality * 100)}%`);
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
+
+const canvasFor = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  return { canvas, ctx };
+};
+
+/** Runs the whole pipeline on `src` and encodes the result in the chosen format. */
+export const applyAdjustments = async (src: string, adjustments: ImageAdjustments): Promise<string> => {
+  const image = await loadImage(src);
+  const crop = cropRect(adjustments, image.naturalWidth, image.naturalHeight);
+  const { width, height } = adjustedSize(adjustments, image.naturalWidth, image.naturalHeight);
+  const { canvas, ctx } = canvasFor(width, height);
+
+  // JPEG has no alpha; without a backdrop transparent areas would turn black.
+  if (adjustments.format === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const sideways = adjustments.rotation === 90 || adjustments.rotation === 270;
+  const drawWidth = sideways ? height : width;
+  const drawHeight = sideways ? width : height;
+  const draw = () => {
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(adjustments.rotation * Math.PI / 180);
+    ctx.scale(adjustments.flipHorizontal ? -1 : 1, adjustments.flipVertical ? -1 : 1);
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  };
+
+  ctx.imageSmoothingQuality = 'high';
+  const blurPx = adjustments.blur * Math.min(width, height);
+  const colorFilter = `brightness(${adjustments.brightness}) contrast(${adjustments.contrast}) saturate(${adjustments.saturation})`;
+  if (blurPx > 0) {
+    // A blurred draw fades out at the edges, so lay the sharp image underneath to keep them solid.
+    ctx.filter = colorFilter;
+    draw();
+    ctx.filter = `${colorFilter} blur(${blurPx}px)`;
+  } else {
+    ctx.filter = colorFilter;
+  }
+  draw();
+  ctx.filter = 'none';
+
+  if (adjustments.vignette > 0) {
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, `rgba(0, 0, 0, ${adjustments.vignette})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  return canvas.toDataURL(adjustments.format, adjustments.quality);
+};
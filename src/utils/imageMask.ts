@@ -0,0 +1,54 @@
+import { loadImage } from './fileUtils';
+
+// Region edits. The mask editor paints the region into the alpha channel of a PNG the size of the
+// image; the model gets a black-and-white copy of it, and its result is composited back through the
+// mask so everything outside the region keeps the original pixels.
+
+const canvasFor = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  return { canvas, ctx };
+};
+
+/** Whether anything has been painted into the canvas's alpha channel. */
+export const hasMaskedPixels = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/** Turns an alpha mask into the white-on-black PNG the model is given. */
+export const maskToBlackAndWhite = async (mask: string): Promise<string> => {
+  const image = await loadImage(mask);
+  const { canvas, ctx } = canvasFor(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Keeps `edited` only where `mask` is painted and `original` everywhere else, at the original's
+ * size. A result that comes back at a different size is stretched to fit before compositing.
+ */
+export const compositeThroughMask = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [base, result, maskImage] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const { canvas, ctx } = canvasFor(base.naturalWidth, base.naturalHeight);
+  ctx.drawImage(result, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(base, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,25 @@
+import { validate } from './validation';
+import type { Schema } from './validation';
+
+// Small JSON settings kept in localStorage. Storage can be unavailable (private mode, disabled
+// storage, quota); reads then fall back and writes only log, so settings last for the session.
+
+/** The stored value when it exists and matches `schema`, otherwise `fallback`. */
+export const readStoredJson = <T>(key: string, schema: Schema<T>, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return fallback;
+    const result = validate(schema, JSON.parse(stored));
+    return result.ok ? result.value : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save "${key}" to local storage:`, error);
+  }
+};
@@ -0,0 +1,82 @@
+import type { Rect } from './textOverlay';
+
+// Content-aware cropping for resizing one image to many aspect ratios. The crop window keeps the
+// image's full width or height and slides along the other axis to where the most detail is,
+// measured as edge energy on a small copy of the image.
+
+/** Longest side of the copy the energy is measured on. */
+const ENERGY_SAMPLE_SIZE = 128;
+
+/** How strongly an off-centre window is penalised, so flat images still crop to the middle. */
+const CENTER_BIAS = 0.15;
+
+/**
+ * Start index of the `window`-long run of `profile` with the most energy, weighted slightly
+ * towards the centre. Returns 0 when the window covers the whole profile.
+ */
+export const bestWindow = (profile: number[], window: number): number => {
+  const span = profile.length - window;
+  if (span <= 0) return 0;
+  const prefix = [0];
+  profile.forEach((value, index) => prefix.push(prefix[index] + value));
+  const total = prefix[profile.length] || 1;
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let start = 0; start <= span; start++) {
+    const offCentre = Math.abs(start - span / 2) / (span / 2);
+    const score = (prefix[start + window] - prefix[start]) / total - CENTER_BIAS * offCentre;
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+  return best;
+};
+
+// Gradient magnitude summed per column (horizontal) or per row (vertical) of a small copy of the image.
+const energyProfile = (image: HTMLImageElement, axis: 'horizontal' | 'vertical'): number[] => {
+  const scale = Math.min(1, ENERGY_SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  const profile = new Array<number>(axis === 'horizontal' ? width : height).fill(0);
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const energy = Math.abs(luma(x + 1, y) - luma(x, y)) + Math.abs(luma(x, y + 1) - luma(x, y));
+      profile[axis === 'horizontal' ? x : y] += energy;
+    }
+  }
+  return profile;
+};
+
+/** The region of `image` to scale into a `width` × `height` frame: its aspect ratio, placed over the most detailed part. */
+export const smartCropRect = (image: HTMLImageElement, width: number, height: number): Rect => {
+  const sourceWidth = image.naturalWidth;
+  const sourceHeight = image.naturalHeight;
+  const targetRatio = width / height;
+  if (Math.abs(sourceWidth / sourceHeight - targetRatio) < 0.01) {
+    return { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  }
+  if (sourceWidth / sourceHeight > targetRatio) {
+    const cropWidth = sourceHeight * targetRatio;
+    const profile = energyProfile(image, 'horizontal');
+    const unit = sourceWidth / (profile.length || 1);
+    const x = Math.min(sourceWidth - cropWidth, bestWindow(profile, Math.round(cropWidth / unit)) * unit);
+    return { x, y: 0, width: cropWidth, height: sourceHeight };
+  }
+  const cropHeight = sourceWidth / targetRatio;
+  const profile = energyProfile(image, 'vertical');
+  const unit = sourceHeight / (profile.length || 1);
+  const y = Math.min(sourceHeight - cropHeight, bestWindow(profile, Math.round(cropHeight / unit)) * unit);
+  return { x: 0, y, width: sourceWidth, height: cropHeight };
+};
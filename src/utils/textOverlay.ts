@@ -0,0 +1,314 @@
+import type { OverlayLayout, OverlayPosition, SafeZone, TextOverlayStyle, TextStyle } from '../types';
+import { loadImage } from './fileUtils';
+
+// Client-side typesetting for quote images. The quote is drawn onto the clean background with a
+// canvas instead of asking the image model to paint it, so the spelling is always right and the
+// same text, style and background always produce the same pixels without another API call.
+
+export interface OverlayFont {
+  family: string;
+  /** CSS fallback used until (or if) the web font loads. */
+  fallback: string;
+}
+
+// The web fonts are loaded by the Google Fonts stylesheet in index.html.
+export const OVERLAY_FONTS: OverlayFont[] = [
+  { family: 'Playfair Display', fallback: 'Georgia, serif' },
+  { family: 'Lora', fallback: 'Georgia, serif' },
+  { family: 'Montserrat', fallback: 'Arial, sans-serif' },
+  { family: 'Oswald', fallback: 'Impact, sans-serif' },
+  { family: 'Great Vibes', fallback: 'cursive' },
+  { family: 'Georgia', fallback: 'serif' },
+  { family: 'Arial', fallback: 'sans-serif' },
+];
+
+export const OVERLAY_POSITIONS: OverlayPosition[] = ['top', 'center', 'bottom', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Playfair Display',
+  fontWeight: 700,
+  italic: false,
+  fontSize: null,
+  lineHeight: 1.25,
+  color: '#ffffff',
+  align: 'center',
+  shadow: { color: 'rgba(0, 0, 0, 0.6)', blur: 0.2, offset: 0.04 },
+  stroke: null,
+  scrim: null,
+};
+
+export const DEFAULT_TEXT_OVERLAY_STYLE: TextOverlayStyle = {
+  ...DEFAULT_TEXT_STYLE,
+  position: 'center',
+  margin: 0.08,
+  maxWidth: 0.9,
+  maxHeight: 0.6,
+};
+
+/** A rectangle in image pixels. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
+export interface TextLayout {
+  fontSize: number;
+  lines: string[];
+  lineHeight: number;
+  /** Bounding box of the lines themselves, excluding any scrim padding. */
+  block: Rect;
+}
+
+const MIN_FONT_PX = 10;
+
+type Measure = (text: string) => number;
+
+export const fontFor = (style: TextStyle, sizePx: number): string => {
+  const fallback = OVERLAY_FONTS.find(font => font.family === style.fontFamily)?.fallback ?? 'sans-serif';
+  return `${style.italic ? 'italic ' : ''}${style.fontWeight} ${sizePx}px "${style.fontFamily}", ${fallback}`;
+};
+
+/** Waits for the style's web font, so the first render doesn't silently use the fallback. */
+export const loadOverlayFont = async (style: TextStyle): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await document.fonts.load(fontFor(style, 48));
+  } catch {
+    // The fallback font is used.
+  }
+};
+
+/** Greedy word wrap. Explicit line breaks are kept and a word wider than the line is split. */
+export const wrapText = (text: string, maxWidth: number, measure: Measure): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (line.length > 1 && measure(line) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const inset = (rect: Rect, amount: number): Rect => ({
+  x: rect.x + amount,
+  y: rect.y + amount,
+  width: Math.max(1, rect.width - 2 * amount),
+  height: Math.max(1, rect.height - 2 * amount),
+});
+
+const measurerFor = (ctx: CanvasRenderingContext2D, style: TextStyle, sizePx: number): Measure => {
+  ctx.font = fontFor(style, sizePx);
+  return text => ctx.measureText(text).width;
+};
+
+// The lines for `sizePx` when they fit the box without splitting any word, otherwise null.
+const fitAt = (ctx: CanvasRenderingContext2D, text: string, box: Rect, style: TextStyle, sizePx: number): string[] | null => {
+  const area = style.scrim ? inset(box, style.scrim.padding * sizePx) : box;
+  const measure = measurerFor(ctx, style, sizePx);
+  if (text.split(/\s+/).some(word => measure(word) > area.width)) return null;
+  const lines = wrapText(text, area.width, measure);
+  return lines.length * sizePx * style.lineHeight <= area.height ? lines : null;
+};
+
+/**
+ * Picks the font size and line breaks for `text` inside `box`. With an auto size this is the
+ * largest size at which every line fits; a fixed size wraps to the box width and may overflow it.
+ */
+export const layoutText = (
+  ctx: CanvasRenderingContext2D, text: string, box: Rect, style: TextStyle, shorterSide: number, verticalAlign: VerticalAlign,
+): TextLayout => {
+  let fontSize = MIN_FONT_PX;
+  if (style.fontSize !== null) {
+    fontSize = Math.max(MIN_FONT_PX, Math.round(style.fontSize * shorterSide));
+  } else {
+    let low = MIN_FONT_PX, high = Math.max(MIN_FONT_PX, Math.floor(box.height));
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (fitAt(ctx, text, box, style, mid)) {
+        fontSize = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+  }
+
+  const padding = style.scrim ? style.scrim.padding * fontSize : 0;
+  const area = inset(box, padding);
+  const measure = measurerFor(ctx, style, fontSize);
+  const lines = wrapText(text, area.width, measure);
+  const lineHeight = fontSize * style.lineHeight;
+  const width = Math.max(0, ...lines.map(measure));
+  const height = lines.length * lineHeight;
+
+  const x = style.align === 'left' ? area.x : style.align === 'right' ? area.x + area.width - width : area.x + (area.width - width) / 2;
+  const y = verticalAlign === 'top' ? area.y : verticalAlign === 'bottom' ? area.y + area.height - height : area.y + (area.height - height) / 2;
+  return { fontSize, lines, lineHeight, block: { x, y, width, height } };
+};
+
+const anchorsOf = (position: OverlayPosition): { vertical: VerticalAlign, horizontal: 'left' | 'center' | 'right' } => {
+  const [vertical, horizontal = 'center'] = position.split('-') as [string, 'left' | 'right' | undefined];
+  return { vertical: vertical === 'center' ? 'middle' : vertical as VerticalAlign, horizontal };
+};
+
+/** The image minus the style's margin, or minus a platform's safe zone where that is larger. */
+const safeArea = (style: TextOverlayStyle, width: number, height: number, safeZone?: SafeZone): Rect => {
+  const margin = style.margin * Math.min(width, height);
+  const top = Math.max(margin, (safeZone?.top ?? 0) * height);
+  const right = Math.max(margin, (safeZone?.right ?? 0) * width);
+  const bottom = Math.max(margin, (safeZone?.bottom ?? 0) * height);
+  const left = Math.max(margin, (safeZone?.left ?? 0) * width);
+  return { x: left, y: top, width: width - left - right, height: height - top - bottom };
+};
+
+/** The box a positioning preset gives the text: a share of the safe area, anchored to one side or corner. */
+export const presetBox = (style: TextOverlayStyle, width: number, height: number, safeZone?: SafeZone): Rect => {
+  const safe = safeArea(style, width, height, safeZone);
+  const boxWidth = safe.width * style.maxWidth;
+  const boxHeight = safe.height * style.maxHeight;
+  const { vertical, horizontal } = anchorsOf(style.position);
+  return {
+    x: horizontal === 'left' ? safe.x : horizontal === 'right' ? safe.x + safe.width - boxWidth : safe.x + (safe.width - boxWidth) / 2,
+    y: vertical === 'top' ? safe.y : vertical === 'bottom' ? safe.y + safe.height - boxHeight : safe.y + (safe.height - boxHeight) / 2,
+    width: boxWidth,
+    height: boxHeight,
+  };
+};
+
+/** Draws `text` into `box` on a canvas that already holds the background. */
+export const drawTextBlock = (
+  ctx: CanvasRenderingContext2D, text: string, box: Rect, style: TextStyle, shorterSide: number, verticalAlign: VerticalAlign = 'middle',
+): TextLayout => {
+  const layout = layoutText(ctx, text, box, style, shorterSide, verticalAlign);
+  const { fontSize, lines, lineHeight, block } = layout;
+
+  ctx.save();
+  if (style.scrim) {
+    const padding = style.scrim.padding * fontSize;
+    ctx.globalAlpha = style.scrim.opacity;
+    ctx.fillStyle = style.scrim.color;
+    ctx.fillRect(block.x - padding, block.y - padding, block.width + 2 * padding, block.height + 2 * padding);
+    ctx.globalAlpha = 1;
+  }
+
+  ctx.font = fontFor(style, fontSize);
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'middle';
+  const x = style.align === 'left' ? block.x : style.align === 'right' ? block.x + block.width : block.x + block.width / 2;
+
+  const applyShadow = () => {
+    if (!style.shadow) return;
+    ctx.shadowColor = style.shadow.color;
+    ctx.shadowBlur = style.shadow.blur * fontSize;
+    ctx.shadowOffsetY = style.shadow.offset * fontSize;
+  };
+  const clearShadow = () => {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetY = 0;
+  };
+
+  lines.forEach((line, index) => {
+    const y = block.y + lineHeight * (index + 0.5);
+    // The shadow goes on the bottom layer only, so stroked text doesn't cast it twice.
+    applyShadow();
+    if (style.stroke) {
+      ctx.lineWidth = style.stroke.width * fontSize;
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = style.stroke.color;
+      ctx.strokeText(line, x, y);
+      clearShadow();
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, x, y);
+    clearShadow();
+  });
+  ctx.restore();
+  return layout;
+};
+
+/** Draws `text` at the style's positioning preset, kept out of `safeZone` when one is given. */
+export const drawTextOverlay = (
+  ctx: CanvasRenderingContext2D, width: number, height: number, text: string, style: TextOverlayStyle, safeZone?: SafeZone,
+): TextLayout =>
+  drawTextBlock(ctx, text, presetBox(style, width, height, safeZone), style, Math.min(width, height), anchorsOf(style.position).vertical);
+
+/** The font, color and effects of a preset style, without its placement. */
+export const textStyleOf = ({ position: _position, margin: _margin, maxWidth: _maxWidth, maxHeight: _maxHeight, ...style }: TextOverlayStyle): TextStyle => style;
+
+/**
+ * Turns a preset placement into an editable design with one quote box. A box anchored to the top
+ * or bottom is shrunk to the text it holds, since boxes always centre their text vertically.
+ */
+export const layoutFromStyle = (ctx: CanvasRenderingContext2D, text: string, style: TextOverlayStyle, width: number, height: number): OverlayLayout => {
+  let box = presetBox(style, width, height);
+  const { vertical } = anchorsOf(style.position);
+  if (vertical !== 'middle') {
+    const { block, fontSize } = layoutText(ctx, text, box, style, Math.min(width, height), vertical);
+    const textHeight = Math.min(box.height, block.height + 2 * (style.scrim ? style.scrim.padding * fontSize : 0));
+    box = { ...box, y: vertical === 'top' ? box.y : box.y + box.height - textHeight, height: textHeight };
+  }
+  return {
+    boxes: [{
+      id: crypto.randomUUID(),
+      role: 'quote',
+      text,
+      x: box.x / width,
+      y: box.y / height,
+      width: box.width / width,
+      height: box.height / height,
+      style: textStyleOf(style),
+    }],
+  };
+};
+
+/** The same design with every quote box holding `quote`, for re-using a design on another post. */
+export const withQuote = (layout: OverlayLayout, quote: string): OverlayLayout => ({
+  boxes: layout.boxes.map(box => box.role === 'quote' ? { ...box, text: quote } : box),
+});
+
+/** Draws every box of a design on a canvas that already holds the background. */
+export const drawOverlayLayout = (ctx: CanvasRenderingContext2D, width: number, height: number, layout: OverlayLayout) => {
+  const shorterSide = Math.min(width, height);
+  for (const box of layout.boxes) {
+    drawTextBlock(ctx, box.text, { x: box.x * width, y: box.y * height, width: box.width * width, height: box.height * height }, box.style, shorterSide);
+  }
+};
+
+const renderToDataUrl = async (imageUrl: string, styles: TextStyle[], draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void): Promise<string> => {
+  const [image] = await Promise.all([loadImage(imageUrl), ...styles.map(loadOverlayFont)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  ctx.drawImage(image, 0, 0);
+  draw(ctx, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/** Renders `text` onto the image and returns a PNG data URL at the image's own resolution. */
+export const renderTextOverlay = (imageUrl: string, text: string, style: TextOverlayStyle = DEFAULT_TEXT_OVERLAY_STYLE): Promise<string> =>
+  renderToDataUrl(imageUrl, [style], (ctx, width, height) => drawTextOverlay(ctx, width, height, text, style));
+
+/** Renders a designer layout onto the image and returns a PNG data URL at the image's own resolution. */
+export const renderOverlayLayout = (imageUrl: string, layout: OverlayLayout): Promise<string> =>
+  renderToDataUrl(imageUrl, layout.boxes.map(box => box.style), (ctx, width, height) => drawOverlayLayout(ctx, width, height, layout));
@@ -0,0 +1,45 @@
+// Near-duplicate detection for short posts. Two texts count as near-duplicates when their word
+// sets overlap heavily (Jaccard similarity), which catches reworded quotes that an exact string
+// comparison would miss while still allowing two posts on the same theme.
+
+/** Word-set overlap at or above which two posts are treated as the same idea. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'to', 'of', 'in', 'on', 'for', 'is', 'are', 'it', 'your', 'you', 'be', 'that', 'this', 'with']);
+
+const wordSet = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(word => word && !STOP_WORDS.has(word)));
+
+/** Jaccard similarity of the two texts' word sets, from 0 (nothing shared) to 1 (same words). */
+export const textSimilarity = (a: string, b: string): number => {
+  const wordsA = wordSet(a), wordsB = wordSet(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+export interface DedupeResult {
+  unique: string[];
+  /** Dropped texts, each with the earlier or existing text it duplicates. */
+  duplicates: { text: string, duplicateOf: string }[];
+}
+
+/**
+ * Keeps the first of every group of near-duplicate candidates and drops any candidate that
+ * duplicates one of `existing`. Order of the surviving candidates is preserved.
+ */
+export const dedupeTexts = (candidates: string[], existing: string[] = [], threshold = NEAR_DUPLICATE_THRESHOLD): DedupeResult => {
+  const seen = [...existing];
+  const result: DedupeResult = { unique: [], duplicates: [] };
+  for (const text of candidates) {
+    const duplicateOf = seen.find(other => textSimilarity(text, other) >= threshold);
+    if (duplicateOf !== undefined) {
+      result.duplicates.push({ text, duplicateOf });
+    } else {
+      result.unique.push(text);
+      seen.push(text);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,132 @@
+// Minimal runtime schema helpers shared by the browser and the serverless function.
+// Each schema checks an unknown value, records any problems in `issues` and returns the
+// (possibly normalized) value so the static type and the runtime check never drift apart.
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export type Schema<T> = (value: unknown, field: string, issues: FieldIssue[]) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type InferObject<S extends Shape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const string = (options: { minLength?: number; maxLength?: number; pattern?: RegExp; patternMessage?: string } = {}): Schema<string> =>
+  (value, field, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ field, message: `must be a string (received ${describe(value)})` });
+      return '';
+    }
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      issues.push({ field, message: options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters` });
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      issues.push({ field, message: `must be at most ${options.maxLength} characters` });
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ field, message: options.patternMessage || `must match ${options.pattern}` });
+    }
+    return value;
+  };
+
+export const number = (options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> =>
+  (value, field, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ field, message: `must be a number (received ${describe(value)})` });
+      return 0;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ field, message: 'must be a whole number' });
+    }
+    if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      issues.push({ field, message: `must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}` });
+    }
+    return value;
+  };
+
+export const boolean = (): Schema<boolean> =>
+  (value, field, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ field, message: `must be true or false (received ${describe(value)})` });
+      return false;
+    }
+    return value;
+  };
+
+export const oneOf = <T extends string>(allowed: readonly T[]): Schema<T> =>
+  (value, field, issues) => {
+    if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+      issues.push({ field, message: `must be one of ${allowed.map(a => `"${a}"`).join(', ')}` });
+      return allowed[0];
+    }
+    return value as T;
+  };
+
+/** A base64 data URL such as "data:image/png;base64,...". Pass a mime prefix to restrict the type. */
+export const dataUrl = (mimePrefix = ''): Schema<string> =>
+  string({
+    pattern: new RegExp(`^data:${mimePrefix.replace(/[/.+]/g, '\\$&')}[^;,]*;base64,.+`, 's'),
+    patternMessage: `must be a base64 data URL${mimePrefix ? ` of type ${mimePrefix}*` : ''}`,
+  });
+
+/** Accepts undefined or null (normalized to undefined) in addition to whatever `schema` accepts. */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, field, issues) => (value === undefined || value === null ? undefined : schema(value, field, issues));
+
+export const array = <T>(item: Schema<T>, options: { minLength?: number; maxLength?: number } = {}): Schema<T[]> =>
+  (value, field, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ field, message: `must be an array (received ${describe(value)})` });
+      return [];
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ field, message: `must contain at least ${options.minLength} item(s)` });
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      issues.push({ field, message: `must contain at most ${options.maxLength} item(s)` });
+    }
+    return value.map((entry, index) => item(entry, `${field}[${index}]`, issues));
+  };
+
+/** Validates the listed keys and drops any others. */
+export const object = <S extends Shape>(shape: S): Schema<InferObject<S>> =>
+  (value, field, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ field, message: `must be an object (received ${describe(value)})` });
+      return {} as InferObject<S>;
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key]((value as Record<string, unknown>)[key], field ? `${field}.${key}` : key, issues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as InferObject<S>;
+  };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: FieldIssue[] };
+
+export const validate = <T>(schema: Schema<T>, value: unknown, field = ''): ValidationResult<T> => {
+  const issues: FieldIssue[] = [];
+  const parsed = schema(value, field, issues);
+  return issues.length ? { ok: false, issues } : { ok: true, value: parsed };
+};
+
+export const formatIssues = (issues: FieldIssue[]): string =>
+  issues.map(issue => `${issue.field || 'payload'} ${issue.message}`).join('; ');
@@ -0,0 +1,74 @@
+import type { BrandKit, SafeZone } from '../types';
+import { loadImage } from './fileUtils';
+import { DEFAULT_TEXT_STYLE, fontFor, loadOverlayFont } from './textOverlay';
+
+// The brand kit's logo and handle, stamped into a corner of finished images. Like the text
+// overlay it is drawn on a canvas in the browser, so the AI-generated background stays clean.
+
+/** Gap between the watermark and the image edge, and between logo and handle, as a fraction of the shorter side. */
+const WATERMARK_MARGIN = 0.03;
+
+/** Whether the kit has anything to stamp onto an image. */
+export const hasWatermark = (kit?: BrandKit): kit is BrandKit =>
+  !!kit?.enabled && (!!kit.logo || !!kit.handle.trim());
+
+const handleStyle = (kit: BrandKit) => ({ ...DEFAULT_TEXT_STYLE, fontFamily: kit.fonts.body, fontWeight: 700 });
+
+/** Loads the logo and handle font; resolves to the logo image, or null without one. */
+export const loadWatermark = async (kit: BrandKit): Promise<HTMLImageElement | null> => {
+  const [logo] = await Promise.all([kit.logo ? loadImage(kit.logo) : null, loadOverlayFont(handleStyle(kit))]);
+  return logo;
+};
+
+/** Draws the watermark in the kit's corner, inside `safeZone` when one is given. */
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D, width: number, height: number, kit: BrandKit, logo: HTMLImageElement | null, safeZone?: SafeZone,
+) => {
+  const shorter = Math.min(width, height);
+  const margin = shorter * WATERMARK_MARGIN;
+  const logoHeight = logo ? shorter * kit.watermark.size : 0;
+  // SVGs without intrinsic dimensions report zero; treat them as square.
+  const logoWidth = logo ? (logo.naturalWidth && logo.naturalHeight ? logoHeight * logo.naturalWidth / logo.naturalHeight : logoHeight) : 0;
+  const handle = kit.handle.trim();
+  const fontSize = Math.max(12, shorter * kit.watermark.size * 0.4);
+  ctx.save();
+  ctx.font = fontFor(handleStyle(kit), fontSize);
+  const handleWidth = handle ? ctx.measureText(handle).width : 0;
+  const gap = logo && handle ? margin / 2 : 0;
+  const contentWidth = logoWidth + gap + handleWidth;
+  const contentHeight = Math.max(logoHeight, handle ? fontSize : 0);
+
+  const [vertical, horizontal] = kit.watermark.position.split('-');
+  const x = horizontal === 'left'
+    ? Math.max(margin, (safeZone?.left ?? 0) * width)
+    : width - Math.max(margin, (safeZone?.right ?? 0) * width) - contentWidth;
+  const y = vertical === 'top'
+    ? Math.max(margin, (safeZone?.top ?? 0) * height)
+    : height - Math.max(margin, (safeZone?.bottom ?? 0) * height) - contentHeight;
+
+  ctx.globalAlpha = kit.watermark.opacity;
+  if (logo) ctx.drawImage(logo, x, y + (contentHeight - logoHeight) / 2, logoWidth, logoHeight);
+  if (handle) {
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize * 0.2;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    ctx.fillText(handle, x + logoWidth + gap, y + contentHeight / 2);
+  }
+  ctx.restore();
+};
+
+/** Stamps the kit's watermark onto the image; returns the image unchanged when the kit has none. */
+export const applyWatermark = async (imageUrl: string, kit?: BrandKit): Promise<string> => {
+  if (!hasWatermark(kit)) return imageUrl;
+  const [image, logo] = await Promise.all([loadImage(imageUrl), loadWatermark(kit)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+  ctx.drawImage(image, 0, 0);
+  drawWatermark(ctx, canvas.width, canvas.height, kit, logo);
+  return canvas.toDataURL('image/png');
+};